@@ -22,3 +22,14 @@ export const cancelOrderButton: AdminUiExtension = {
     },
   ],
 };
+
+export const bulkOrderActions: AdminUiExtension = {
+  extensionPath: path.join(__dirname, 'ui'),
+  ngModules: [
+    {
+      type: 'shared',
+      ngModuleFileName: 'bulk-order-actions.module.ts',
+      ngModuleName: 'BulkOrderActionsModule',
+    },
+  ],
+};
@@ -0,0 +1,284 @@
+import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
+import { DataService, Dialog } from '@vendure/admin-ui/core';
+import {
+  GetOrderListQuery,
+  OrderListOptions,
+  SortOrder,
+} from '@vendure/admin-ui/core/common/generated-types';
+import {
+  completeOrder,
+  formatRefunds,
+  refundAndCancelOrder,
+} from './order-state.util';
+
+type BulkAction = 'complete' | 'cancel';
+
+type OrderListItem = GetOrderListQuery['orders']['items'][number];
+
+interface BulkOrderResult {
+  status: 'pending' | 'running' | 'success' | 'error';
+  message?: string;
+}
+
+@Component({
+  selector: 'bulk-order-actions',
+  template: `
+    <ng-template vdrDialogTitle>Bulk order actions</ng-template>
+    <div class="clr-row">
+      <div class="clr-col">
+        <label>Action</label>
+        <select
+          clrSelect
+          [(ngModel)]="action"
+          (ngModelChange)="clearResults()"
+          [disabled]="running"
+        >
+          <option value="complete">Complete (Shipped and Delivered)</option>
+          <option value="cancel">Refund and cancel</option>
+        </select>
+      </div>
+      <div class="clr-col">
+        <label>Orders in state</label>
+        <select
+          clrSelect
+          [(ngModel)]="state"
+          (ngModelChange)="setPage(1)"
+          [disabled]="running"
+        >
+          <option *ngFor="let state of states" [value]="state">
+            {{ state }}
+          </option>
+        </select>
+      </div>
+    </div>
+    <table class="table">
+      <thead>
+        <tr>
+          <th class="left">
+            <input
+              type="checkbox"
+              clrCheckbox
+              [checked]="allSelected()"
+              (change)="toggleAll()"
+              [disabled]="running || !orders.length"
+            />
+          </th>
+          <th class="left">Code</th>
+          <th class="left">Customer</th>
+          <th class="left">Total</th>
+          <th class="left">Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr *ngFor="let order of orders">
+          <td class="left">
+            <input
+              type="checkbox"
+              clrCheckbox
+              [checked]="selected.has(order.id)"
+              (change)="toggle(order.id)"
+              [disabled]="running"
+            />
+          </td>
+          <td class="left">{{ order.code }}</td>
+          <td class="left">
+            {{ order.customer?.firstName }} {{ order.customer?.lastName }}
+          </td>
+          <td class="left">
+            {{ order.totalWithTax | localeCurrency: order.currencyCode }}
+          </td>
+          <td class="left" [ngSwitch]="results[order.id]?.status">
+            <span *ngSwitchCase="'pending'">Waiting</span>
+            <clr-spinner *ngSwitchCase="'running'" clrInline></clr-spinner>
+            <vdr-chip *ngSwitchCase="'success'" colorType="success">
+              {{ results[order.id].message || 'Done' }}
+            </vdr-chip>
+            <vdr-chip *ngSwitchCase="'error'" colorType="error">
+              {{ results[order.id].message }}
+            </vdr-chip>
+          </td>
+        </tr>
+        <tr *ngIf="!orders.length">
+          <td colspan="5">No orders in state {{ state }}</td>
+        </tr>
+      </tbody>
+    </table>
+    <div class="clr-row" *ngIf="totalItems > pageSize">
+      <div class="clr-col">
+        Orders {{ (page - 1) * pageSize + 1 }} -
+        {{ (page - 1) * pageSize + orders.length }} of {{ totalItems }}
+      </div>
+      <div class="clr-col-auto">
+        <button
+          type="button"
+          class="btn btn-sm"
+          (click)="setPage(page - 1)"
+          [disabled]="running || page <= 1"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          class="btn btn-sm"
+          (click)="setPage(page + 1)"
+          [disabled]="running || page * pageSize >= totalItems"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+    <p *ngIf="finished">
+      {{ countResults('success') }} succeeded,
+      {{ countResults('error') }} failed
+    </p>
+    <ng-template vdrDialogButtons>
+      <button
+        type="button"
+        class="btn"
+        (click)="resolveWith()"
+        [disabled]="running"
+      >
+        Close
+      </button>
+      <button
+        type="button"
+        class="btn"
+        [class.btn-primary]="action === 'complete'"
+        [class.btn-danger]="action === 'cancel'"
+        (click)="run()"
+        [disabled]="running || !selected.size"
+      >
+        {{ action === 'complete' ? 'Complete' : 'Refund and cancel' }}
+        {{ selected.size }} orders
+      </button>
+    </ng-template>
+  `,
+})
+export class BulkOrderActionsComponent implements OnInit, Dialog<void> {
+  readonly states = [
+    'PaymentAuthorized',
+    'PaymentSettled',
+    'Shipped',
+    'Delivered',
+  ];
+  readonly pageSize = 100;
+  resolveWith: (result?: void) => void;
+  action: BulkAction = 'complete';
+  state = 'PaymentSettled';
+  orders: OrderListItem[] = [];
+  totalItems = 0;
+  page = 1;
+  selected = new Set<string>();
+  results: Record<string, BulkOrderResult> = {};
+  running = false;
+  finished = false;
+
+  constructor(
+    private dataService: DataService,
+    private changeDetector: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  setPage(page: number): void {
+    this.page = page;
+    this.load();
+  }
+
+  load(): void {
+    this.selected.clear();
+    this.clearResults();
+    const options: OrderListOptions = {
+      skip: (this.page - 1) * this.pageSize,
+      take: this.pageSize,
+      filter: { state: { eq: this.state } },
+      sort: { updatedAt: SortOrder.ASC },
+    };
+    this.dataService.order
+      .getOrders(options)
+      .single$.subscribe(({ orders }) => {
+        this.orders = orders.items;
+        this.totalItems = orders.totalItems;
+        this.changeDetector.markForCheck();
+      });
+  }
+
+  clearResults(): void {
+    this.results = {};
+    this.finished = false;
+  }
+
+  toggle(orderId: string): void {
+    if (this.selected.has(orderId)) {
+      this.selected.delete(orderId);
+    } else {
+      this.selected.add(orderId);
+    }
+  }
+
+  allSelected(): boolean {
+    return !!this.orders.length && this.selected.size === this.orders.length;
+  }
+
+  toggleAll(): void {
+    if (this.allSelected()) {
+      this.selected.clear();
+    } else {
+      this.orders.forEach((order) => this.selected.add(order.id));
+    }
+  }
+
+  countResults(status: BulkOrderResult['status']): number {
+    return Object.values(this.results).filter(
+      (result) => result.status === status
+    ).length;
+  }
+
+  /**
+   * Run the selected action one order at a time, so a failing order doesn't stop the others
+   */
+  async run(): Promise<void> {
+    const confirmation =
+      this.action === 'complete'
+        ? `Complete ${this.selected.size} orders? This can not be undone.`
+        : `Refund and cancel ${this.selected.size} orders? This can not be undone.`;
+    if (!window.confirm(confirmation)) {
+      return;
+    }
+    this.running = true;
+    const orderIds = this.orders
+      .map((order) => order.id)
+      .filter((id) => this.selected.has(id));
+    this.results = {};
+    orderIds.forEach((id) => (this.results[id] = { status: 'pending' }));
+    for (const orderId of orderIds) {
+      this.results[orderId] = { status: 'running' };
+      this.changeDetector.markForCheck();
+      try {
+        if (this.action === 'complete') {
+          await completeOrder(this.dataService, orderId);
+          this.results[orderId] = { status: 'success' };
+        } else {
+          const refunds = await refundAndCancelOrder(this.dataService, orderId);
+          this.results[orderId] = {
+            status: refunds.some((refund) => refund.errorMessage)
+              ? 'error'
+              : 'success',
+            message: refunds.length
+              ? `Refunded ${formatRefunds(refunds)}`
+              : undefined,
+          };
+        }
+      } catch (e) {
+        this.results[orderId] = { status: 'error', message: e.message };
+      }
+      this.changeDetector.markForCheck();
+    }
+    this.selected.clear();
+    this.running = false;
+    this.finished = true;
+    this.changeDetector.markForCheck();
+  }
+}
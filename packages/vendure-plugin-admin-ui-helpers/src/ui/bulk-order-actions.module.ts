@@ -0,0 +1,40 @@
+import {
+  addActionBarItem,
+  ModalService,
+  SharedModule,
+} from '@vendure/admin-ui/core';
+import { NgModule } from '@angular/core';
+import { BulkOrderActionsComponent } from './bulk-order-actions.component';
+
+/**
+ * The onClick context of action bar items doesn't give access to the injector,
+ * so the ModalService is set when this module is instantiated
+ */
+let modalService: ModalService | undefined;
+
+@NgModule({
+  imports: [SharedModule],
+  declarations: [BulkOrderActionsComponent],
+  providers: [
+    addActionBarItem({
+      id: 'bulk-order-actions',
+      label: 'Bulk actions',
+      buttonStyle: 'outline',
+      icon: 'list',
+      locationId: 'order-list',
+      onClick: () => {
+        modalService
+          ?.fromComponent(BulkOrderActionsComponent, {
+            size: 'xl',
+            closable: true,
+          })
+          .subscribe();
+      },
+    }),
+  ],
+})
+export class BulkOrderActionsModule {
+  constructor(service: ModalService) {
+    modalService = service;
+  }
+}
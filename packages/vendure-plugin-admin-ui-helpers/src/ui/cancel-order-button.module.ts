@@ -1,19 +1,29 @@
-import { addActionBarItem, SharedModule } from '@vendure/admin-ui/core';
+import {
+  addActionBarItem,
+  ModalService,
+  SharedModule,
+} from '@vendure/admin-ui/core';
 import { NgModule } from '@angular/core';
 import { Observable } from 'rxjs';
 import {
-  cancel,
-  refund,
-  transitionToDelivered,
-  transitionToShipped,
+  formatRefunds,
+  getOrder,
+  refundAndCancelOrder,
 } from './order-state.util';
 import { RouterModule } from '@angular/router';
+import { CancelOrderDialogComponent } from './cancel-order-dialog.component';
+
+/**
+ * Set by the module constructor, because action bar items can't inject services
+ */
+let modalService: ModalService | undefined;
 
 @NgModule({
   imports: [
     SharedModule,
     RouterModule.forRoot([], { onSameUrlNavigation: 'reload' }),
   ],
+  declarations: [CancelOrderDialogComponent],
   providers: [
     addActionBarItem({
       id: 'refund-order',
@@ -28,25 +38,38 @@ import { RouterModule } from '@angular/router';
       routerLink: [],
       onClick: async (event, { route, dataService, notificationService }) => {
         try {
-          if (!window.confirm('This will cancel and refund. Are you sure?')) {
-            return;
-          }
           const orderId = route.snapshot.params.id;
-          let { order } = await dataService.order
-            .getOrder(orderId)
-            .single$.toPromise();
-          if (!order) {
-            return notificationService.error('Could not find order...');
+          const order = await getOrder(dataService, orderId);
+          const cancellation = await modalService
+            ?.fromComponent(CancelOrderDialogComponent, {
+              size: 'lg',
+              closable: true,
+              locals: { order },
+            })
+            .toPromise();
+          if (!cancellation) {
+            return;
           }
-          if (
-            order.state === 'PaymentSettled' ||
-            order.state === 'Delivered' ||
-            order.state === 'Shipped'
-          ) {
-            await refund(dataService, order);
+          const refunds = await refundAndCancelOrder(
+            dataService,
+            orderId,
+            cancellation
+          );
+          // Reload the order detail page with the new state
+          await getOrder(dataService, orderId);
+          if (refunds.some((refund) => refund.errorMessage)) {
+            notificationService.warning(
+              `Order cancelled, but not all refunds succeeded: ${formatRefunds(
+                refunds
+              )}`
+            );
+          } else {
+            notificationService.success(
+              refunds.length
+                ? `Order cancelled. Refunded ${formatRefunds(refunds)}`
+                : 'Order cancelled'
+            );
           }
-          await cancel(dataService, order);
-          notificationService.success('Order refunded and cancelled');
         } catch (e) {
           notificationService.error(e.message);
           console.error(e);
@@ -55,4 +78,8 @@ import { RouterModule } from '@angular/router';
     }),
   ],
 })
-export class CancelOrderButtonModule {}
+export class CancelOrderButtonModule {
+  constructor(service: ModalService) {
+    modalService = service;
+  }
+}
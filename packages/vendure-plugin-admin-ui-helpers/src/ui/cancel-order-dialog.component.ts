@@ -0,0 +1,136 @@
+import { Component, OnInit } from '@angular/core';
+import { Dialog } from '@vendure/admin-ui/core';
+import { OrderDetailFragment } from '@vendure/admin-ui/core/common/generated-types';
+import { OrderCancellation } from './order-state.util';
+
+@Component({
+  selector: 'cancel-order-dialog',
+  template: `
+    <ng-template vdrDialogTitle>Cancel order {{ order.code }}</ng-template>
+    <table class="table">
+      <thead>
+        <tr>
+          <th class="left">Product</th>
+          <th class="left">Unit price</th>
+          <th class="left">Quantity to cancel</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr *ngFor="let line of order.lines">
+          <td class="left align-middle">
+            {{ line.productVariant.name }}<br />
+            <small>{{ line.productVariant.sku }}</small>
+          </td>
+          <td class="left align-middle">
+            {{
+              line.proratedUnitPriceWithTax | localeCurrency: order.currencyCode
+            }}
+          </td>
+          <td class="left align-middle">
+            <input
+              type="number"
+              min="0"
+              [max]="line.quantity"
+              [(ngModel)]="quantities[line.id]"
+            />
+            / {{ line.quantity }}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+    <clr-checkbox-wrapper>
+      <input type="checkbox" clrCheckbox [(ngModel)]="includeShipping" />
+      <label>
+        Cancel and refund shipping ({{
+          order.shippingWithTax | localeCurrency: order.currencyCode
+        }})
+      </label>
+    </clr-checkbox-wrapper>
+    <vdr-form-field label="Adjustment" for="adjustment">
+      <vdr-currency-input
+        id="adjustment"
+        [(ngModel)]="adjustment"
+        [currencyCode]="order.currencyCode"
+      ></vdr-currency-input>
+    </vdr-form-field>
+    <vdr-form-field label="Reason" for="reason">
+      <input id="reason" type="text" [(ngModel)]="reason" />
+    </vdr-form-field>
+    <p>
+      <strong>Refund total:</strong>
+      {{ getRefundTotal() | localeCurrency: order.currencyCode }}
+    </p>
+    <ng-template vdrDialogButtons>
+      <button type="button" class="btn" (click)="resolveWith()">Close</button>
+      <button
+        type="button"
+        class="btn btn-danger"
+        (click)="submit()"
+        [disabled]="!isValid()"
+      >
+        Refund and cancel
+      </button>
+    </ng-template>
+  `,
+})
+export class CancelOrderDialogComponent
+  implements OnInit, Dialog<OrderCancellation>
+{
+  order: OrderDetailFragment;
+  resolveWith: (result?: OrderCancellation) => void;
+  quantities: Record<string, number> = {};
+  includeShipping = false;
+  adjustment = 0;
+  reason = '';
+
+  ngOnInit(): void {
+    this.order.lines.forEach((line) => (this.quantities[line.id] = 0));
+  }
+
+  getRefundTotal(): number {
+    const itemTotal = this.order.lines.reduce(
+      (total, line) =>
+        total + line.proratedUnitPriceWithTax * this.getQuantity(line.id),
+      0
+    );
+    return (
+      itemTotal +
+      (this.includeShipping ? this.order.shippingWithTax : 0) +
+      this.adjustment
+    );
+  }
+
+  isValid(): boolean {
+    const quantitiesValid = this.order.lines.every((line) => {
+      const quantity = this.getQuantity(line.id);
+      return (
+        Number.isInteger(quantity) && quantity >= 0 && quantity <= line.quantity
+      );
+    });
+    const hasLines = this.order.lines.some(
+      (line) => this.getQuantity(line.id) > 0
+    );
+    return quantitiesValid && (hasLines || this.includeShipping);
+  }
+
+  submit(): void {
+    if (!this.isValid()) {
+      return;
+    }
+    this.resolveWith({
+      lines: this.order.lines
+        .filter((line) => this.getQuantity(line.id) > 0)
+        .map((line) => ({
+          orderLineId: String(line.id),
+          quantity: this.getQuantity(line.id),
+        })),
+      includeShipping: this.includeShipping,
+      adjustment: this.adjustment,
+      reason: this.reason,
+    });
+  }
+
+  private getQuantity(lineId: string): number {
+    return Number(this.quantities[lineId] ?? 0);
+  }
+}
@@ -1,14 +1,30 @@
-import { addActionBarItem, SharedModule } from '@vendure/admin-ui/core';
+import {
+  addActionBarItem,
+  ModalService,
+  SharedModule,
+} from '@vendure/admin-ui/core';
 import { NgModule } from '@angular/core';
 import { Observable } from 'rxjs';
-import { transitionToDelivered, transitionToShipped } from './order-state.util';
+import {
+  completeOrder,
+  getFulfillmentHandler,
+  getOrder,
+  getUnfulfilledLines,
+} from './order-state.util';
 import { RouterModule } from '@angular/router';
+import { FulfillmentHandlerDialogComponent } from './fulfillment-handler-dialog.component';
+
+/**
+ * Set by the module constructor, because action bar items can't inject services
+ */
+let modalService: ModalService | undefined;
 
 @NgModule({
   imports: [
     SharedModule,
     RouterModule.forRoot([], { onSameUrlNavigation: 'reload' }),
   ],
+  declarations: [FulfillmentHandlerDialogComponent],
   providers: [
     addActionBarItem({
       id: 'complete-order',
@@ -23,37 +39,34 @@ import { RouterModule } from '@angular/router';
       routerLink: [],
       onClick: async (event, { route, dataService, notificationService }) => {
         try {
-          if (!window.confirm('Are you sure? This can not be undone.')) {
-            return;
-          }
           const orderId = route.snapshot.params.id;
-          let { order } = await dataService.order
-            .getOrder(orderId)
-            .single$.toPromise();
-          if (!order) {
-            return notificationService.error('Could not find order...');
-          }
-          if (order.state === 'AddingItems') {
-            return notificationService.error(
-              'Active orders cannot be completed.'
+          const order = await getOrder(dataService, orderId);
+          if (
+            order.state === 'AddingItems' ||
+            !getUnfulfilledLines(order).length
+          ) {
+            if (!window.confirm('Are you sure? This can not be undone.')) {
+              return;
+            }
+            await completeOrder(dataService, orderId);
+          } else {
+            // Ask for the handler arguments of the fulfillment that will be created
+            const handlerDefinition = await getFulfillmentHandler(
+              dataService,
+              order
             );
+            const handler = await modalService
+              ?.fromComponent(FulfillmentHandlerDialogComponent, {
+                size: 'md',
+                closable: true,
+                locals: { order, handlerDefinition },
+              })
+              .toPromise();
+            if (!handler) {
+              return;
+            }
+            await completeOrder(dataService, orderId, handler);
           }
-          if (order.state === 'Delivered') {
-            return notificationService.warning('Order is already Delivered.');
-          }
-          if (order.state === 'Cancelled') {
-            return notificationService.error('Order is already Cancelled.');
-          }
-          if (order.state === 'PaymentSettled') {
-            await transitionToShipped(dataService, order);
-            ({ order } = await dataService.order
-              .getOrder(orderId)
-              .single$.toPromise());
-          }
-          if (order!.state === 'Shipped') {
-            await transitionToDelivered(dataService, order!);
-          }
-          await dataService.order.getOrder(orderId).single$.toPromise();
           notificationService.success('Order completed');
         } catch (e) {
           notificationService.error(e.message);
@@ -63,4 +76,8 @@ import { RouterModule } from '@angular/router';
     }),
   ],
 })
-export class CompleteOrderButtonModule {}
+export class CompleteOrderButtonModule {
+  constructor(service: ModalService) {
+    modalService = service;
+  }
+}
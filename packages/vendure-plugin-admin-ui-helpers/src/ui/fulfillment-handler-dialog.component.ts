@@ -0,0 +1,79 @@
+import { Component, OnInit } from '@angular/core';
+import { FormControl } from '@angular/forms';
+import {
+  configurableDefinitionToInstance,
+  configurableOperationValueIsValid,
+  Dialog,
+  toConfigurableOperationInput,
+} from '@vendure/admin-ui/core';
+import {
+  ConfigurableOperation,
+  ConfigurableOperationDefinition,
+  ConfigurableOperationInput,
+  OrderDetailFragment,
+} from '@vendure/admin-ui/core/common/generated-types';
+
+/**
+ * Asks for the arguments of the fulfillment handler, for example a tracking code, before completing an order
+ */
+@Component({
+  selector: 'fulfillment-handler-dialog',
+  template: `
+    <ng-template vdrDialogTitle>Complete order {{ order.code }}</ng-template>
+    <p>
+      A fulfillment will be created for all unfulfilled items. All fulfillments
+      will be transitioned to Shipped and then Delivered. This can not be
+      undone.
+    </p>
+    <vdr-configurable-input
+      [operationDefinition]="handlerDefinition"
+      [operation]="handler"
+      [formControl]="handlerControl"
+      [removable]="false"
+    ></vdr-configurable-input>
+    <ng-template vdrDialogButtons>
+      <button type="button" class="btn" (click)="resolveWith()">Cancel</button>
+      <button
+        type="submit"
+        class="btn btn-primary"
+        (click)="submit()"
+        [disabled]="!canSubmit()"
+      >
+        Complete
+      </button>
+    </ng-template>
+  `,
+})
+export class FulfillmentHandlerDialogComponent
+  implements OnInit, Dialog<ConfigurableOperationInput>
+{
+  order: OrderDetailFragment;
+  handlerDefinition: ConfigurableOperationDefinition;
+  resolveWith: (result?: ConfigurableOperationInput) => void;
+  handler: ConfigurableOperation;
+  handlerControl = new FormControl();
+
+  ngOnInit(): void {
+    this.handler = configurableDefinitionToInstance(this.handlerDefinition);
+    this.handlerControl.patchValue(this.handler);
+  }
+
+  canSubmit(): boolean {
+    return (
+      this.handlerControl.valid &&
+      configurableOperationValueIsValid(
+        this.handlerDefinition,
+        this.handlerControl.value
+      )
+    );
+  }
+
+  submit(): void {
+    if (!this.canSubmit()) {
+      return;
+    }
+    this.resolveWith(
+      toConfigurableOperationInput(this.handler, this.handlerControl.value)
+    );
+  }
+}
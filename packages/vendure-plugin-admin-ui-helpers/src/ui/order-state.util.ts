@@ -1,14 +1,230 @@
 import { DataService } from '@vendure/admin-ui/core';
 import {
+  ConfigurableOperationDefinition,
+  ConfigurableOperationInput,
+  FulfillmentFragment,
   FulfillmentStateTransitionError,
   OrderDetailFragment,
+  OrderLineInput,
+  RefundFragment,
+  RefundOrderInput,
 } from '@vendure/admin-ui/core/common/generated-types';
-import { ErrorResult, RefundOrderStateError } from '@vendure/core';
+import { ErrorResult } from '@vendure/core';
 
+/**
+ * Fulfill all unfulfilled lines and transition all fulfillments to Shipped and then Delivered.
+ * The fulfillment is created with the given handler, or with empty arguments when no handler is given.
+ * Throws when the order can't be completed
+ */
+export async function completeOrder(
+  dataService: DataService,
+  orderId: string,
+  handler?: ConfigurableOperationInput
+): Promise<void> {
+  let order = await getOrder(dataService, orderId);
+  if (order.state === 'AddingItems') {
+    throw Error('Active orders cannot be completed.');
+  }
+  if (order.state === 'Delivered') {
+    throw Error('Order is already Delivered.');
+  }
+  if (order.state === 'Cancelled') {
+    throw Error('Order is already Cancelled.');
+  }
+  if (
+    order.state !== 'PaymentSettled' &&
+    order.state !== 'PartiallyShipped' &&
+    order.state !== 'Shipped' &&
+    order.state !== 'PartiallyDelivered'
+  ) {
+    throw Error(`Orders in state ${order.state} cannot be completed.`);
+  }
+  await transitionToShipped(dataService, order, handler);
+  order = await getOrder(dataService, orderId);
+  await transitionToDelivered(dataService, order);
+  await getOrder(dataService, orderId);
+}
+
+/**
+ * The lines, shipping and adjustment to refund and cancel
+ */
+export interface OrderCancellation {
+  lines: OrderLineInput[];
+  /**
+   * Refund the shipping costs and cancel the shipping lines
+   */
+  includeShipping: boolean;
+  /**
+   * Added to the refunded amount. Can be negative
+   */
+  adjustment: number;
+  reason?: string;
+}
+
+/**
+ * The amount that has been refunded to a payment
+ */
+export interface RefundedPayment {
+  method: string;
+  amount: number;
+  currencyCode: string;
+  /**
+   * State of the created refund, for example 'Settled', 'Pending' or 'Failed'
+   */
+  state: string;
+  /**
+   * Set when Vendure returned an error for this refund, so no refund was created
+   */
+  errorMessage?: string;
+}
+
+/**
+ * Vendure doesn't allow refunds for orders in these states
+ */
+const nonRefundableStates = [
+  'AddingItems',
+  'ArrangingPayment',
+  'PaymentAuthorized',
+];
+
+/**
+ * Refund the order if it has settled payments, and cancel it. Throws without cancelling when the refund fails.
+ * When the refund via one of multiple payments fails, the order is cancelled and the failed refund is returned with its error message,
+ * so it can be refunded manually. Refunds and cancels all lines and shipping when no cancellation is given
+ */
+export async function refundAndCancelOrder(
+  dataService: DataService,
+  orderId: string,
+  cancellation?: OrderCancellation
+): Promise<RefundedPayment[]> {
+  const order = await getOrder(dataService, orderId);
+  let refunds: RefundedPayment[] = [];
+  // Paid orders are refunded in any state, including PartiallyShipped and PartiallyDelivered
+  const isPaid = (order.payments ?? []).some(
+    (payment) => payment.state === 'Settled'
+  );
+  if (isPaid && nonRefundableStates.includes(order.state)) {
+    // For example an order in ArrangingPayment with a partial settled payment
+    throw Error(
+      `Order ${order.code} has settled payments, but orders in state ${order.state} can not be refunded. Refund the payments manually before cancelling.`
+    );
+  }
+  if (isPaid) {
+    refunds = await refund(dataService, order, cancellation);
+  }
+  await cancel(dataService, order, cancellation);
+  return refunds;
+}
+
+/**
+ * For example '10.00 EUR via gift-card, 15.50 EUR via mollie (Pending)'
+ */
+export function formatRefunds(refunds: RefundedPayment[]): string {
+  return refunds
+    .map(({ method, amount, currencyCode, state, errorMessage }) => {
+      const formatted = `${(amount / 100).toFixed(
+        2
+      )} ${currencyCode} via ${method}`;
+      if (errorMessage) {
+        return `${formatted} (${state}: ${errorMessage})`;
+      }
+      return state === 'Settled' ? formatted : `${formatted} (${state})`;
+    })
+    .join(', ');
+}
+
+export async function getOrder(
+  dataService: DataService,
+  orderId: string
+): Promise<OrderDetailFragment> {
+  const { order } = await dataService.order
+    .getOrder(orderId)
+    .single$.toPromise();
+  if (!order) {
+    throw Error('Could not find order...');
+  }
+  return order;
+}
+
+/**
+ * Create a fulfillment for all lines that haven't been fulfilled yet,
+ * and transition all fulfillments that haven't been shipped yet to Shipped
+ */
 export async function transitionToShipped(
+  dataService: DataService,
+  order: OrderDetailFragment,
+  handler?: ConfigurableOperationInput
+): Promise<void> {
+  const fulfillments = getActiveFulfillments(order);
+  const lines = getUnfulfilledLines(order);
+  if (lines.length) {
+    const fulfillment = await createFulfillment(
+      dataService,
+      order,
+      lines,
+      handler
+    );
+    fulfillments.push(fulfillment);
+  }
+  for (const fulfillment of fulfillments) {
+    if (fulfillment.state === 'Shipped' || fulfillment.state === 'Delivered') {
+      continue;
+    }
+    await transitionFulfillment(dataService, fulfillment.id, 'Shipped');
+  }
+}
+
+/**
+ * Transition all fulfillments that haven't been delivered yet to Delivered
+ */
+export async function transitionToDelivered(
   dataService: DataService,
   order: OrderDetailFragment
 ): Promise<void> {
+  for (const fulfillment of getActiveFulfillments(order)) {
+    if (fulfillment.state === 'Delivered') {
+      continue;
+    }
+    await transitionFulfillment(dataService, fulfillment.id, 'Delivered');
+  }
+}
+
+function getActiveFulfillments(
+  order: OrderDetailFragment
+): FulfillmentFragment[] {
+  return (order.fulfillments ?? []).filter(
+    (fulfillment) => fulfillment.state !== 'Cancelled'
+  );
+}
+
+/**
+ * The quantities per line that are not in any fulfillment yet
+ */
+export function getUnfulfilledLines(
+  order: OrderDetailFragment
+): OrderLineInput[] {
+  const fulfillments = getActiveFulfillments(order);
+  return order.lines
+    .map((line) => {
+      const fulfilled = fulfillments
+        .flatMap((fulfillment) => fulfillment.summary)
+        .filter((summary) => summary.orderLine.id === line.id)
+        .reduce((total, summary) => total + summary.quantity, 0);
+      return {
+        orderLineId: String(line.id),
+        quantity: line.quantity - fulfilled,
+      };
+    })
+    .filter((line) => line.quantity > 0);
+}
+
+/**
+ * The fulfillment handler of the shipping method of the order
+ */
+export async function getFulfillmentHandler(
+  dataService: DataService,
+  order: OrderDetailFragment
+): Promise<ConfigurableOperationDefinition> {
   const { fulfillmentHandlers } = await dataService.shippingMethod
     .getShippingMethodOperations()
     .single$.toPromise();
@@ -20,94 +236,286 @@ export async function transitionToShipped(
   if (!handler) {
     throw Error(`No handler found for ${handlerCode}`);
   }
-  const args = handler.args.map((arg) => ({ name: arg.name, value: '' }));
+  return handler;
+}
+
+async function createFulfillment(
+  dataService: DataService,
+  order: OrderDetailFragment,
+  lines: OrderLineInput[],
+  handler?: ConfigurableOperationInput
+): Promise<FulfillmentFragment> {
+  if (!handler) {
+    const definition = await getFulfillmentHandler(dataService, order);
+    handler = {
+      code: definition.code,
+      arguments: definition.args.map((arg) => ({ name: arg.name, value: '' })),
+    };
+  }
   const { addFulfillmentToOrder } = await dataService.order
     .createFulfillment({
-      handler: {
-        code: handlerCode,
-        arguments: args,
-      },
-      lines: order.lines.map((line) => ({
-        quantity: line.quantity,
-        orderLineId: String(line.id),
-      })),
+      handler,
+      lines,
     })
     .toPromise();
-  let fulfillmentId = (addFulfillmentToOrder as any).id;
   const errorResult = addFulfillmentToOrder as FulfillmentStateTransitionError;
-  if (errorResult.errorCode === 'ITEMS_ALREADY_FULFILLED_ERROR') {
-    fulfillmentId = order.fulfillments?.[0].id;
-  } else if (errorResult.errorCode) {
-    throw Error(`${errorResult.errorCode} - ${errorResult.transitionError}`);
-  }
-  const { transitionFulfillmentToState } = await dataService.order
-    .transitionFulfillmentToState(fulfillmentId, 'Shipped')
-    .toPromise();
-  const transitionError =
-    transitionFulfillmentToState as FulfillmentStateTransitionError;
-  if (transitionError.errorCode) {
-    throw Error(`${errorResult.errorCode} - ${errorResult.transitionError}`);
+  if (errorResult.errorCode) {
+    throw Error(
+      `${errorResult.errorCode} - ${
+        errorResult.transitionError ?? errorResult.message
+      }`
+    );
   }
+  return addFulfillmentToOrder as FulfillmentFragment;
 }
 
-export async function transitionToDelivered(
+async function transitionFulfillment(
   dataService: DataService,
-  order: OrderDetailFragment
+  fulfillmentId: string,
+  state: 'Shipped' | 'Delivered'
 ): Promise<void> {
-  const fulfillmentId = order.fulfillments?.[0].id;
   const { transitionFulfillmentToState } = await dataService.order
-    .transitionFulfillmentToState(fulfillmentId!, 'Delivered')
+    .transitionFulfillmentToState(fulfillmentId, state)
     .toPromise();
   const transitionError =
     transitionFulfillmentToState as FulfillmentStateTransitionError;
-  if (transitionError.errorCode?.indexOf('"Delivered" to "Delivered"') > -1) {
-    // this is ok
-  } else if (transitionError.errorCode) {
+  if (transitionError.errorCode) {
     throw Error(
       `${transitionError.errorCode} - ${transitionError.transitionError}`
     );
   }
 }
 
+function getFullCancellation(order: OrderDetailFragment): OrderCancellation {
+  return {
+    lines: order.lines.map((line) => ({
+      quantity: line.quantity,
+      orderLineId: String(line.id),
+    })),
+    includeShipping: true,
+    adjustment: 0,
+  };
+}
+
+/**
+ * Refund the given lines, shipping and adjustment. The refund is distributed over the settled payments of the order.
+ * Throws when the first refund fails. When a later refund fails, the created refunds are returned together with the failed one,
+ * because the created refunds can't be undone
+ */
 export async function refund(
   dataService: DataService,
-  order: OrderDetailFragment
-): Promise<void> {
-  let lines = order.lines.map((line) => ({
-    quantity: line.quantity,
-    orderLineId: String(line.id),
-  }));
+  order: OrderDetailFragment,
+  cancellation = getFullCancellation(order)
+): Promise<RefundedPayment[]> {
+  let lines = cancellation.lines.filter((line) => line.quantity > 0);
   if (order.state === 'AddingItems') {
     lines = [];
   }
-  const { refundOrder } = await dataService.order
-    .refundOrder({
+  const refunds: RefundedPayment[] = [];
+  for (const input of distributeRefund(order, { ...cancellation, lines })) {
+    const method = order.payments!.find(
+      (p) => p.id === input.paymentId
+    )!.method;
+    const { refundOrder } = await dataService.order
+      .refundOrder(input)
+      .toPromise();
+    const errorResult = refundOrder as ErrorResult;
+    if (errorResult.errorCode) {
+      const errorMessage = `${errorResult.errorCode} - ${errorResult.message}`;
+      if (!refunds.some((refund) => refund.state !== 'Failed')) {
+        throw Error(errorMessage);
+      }
+      refunds.push({
+        method,
+        amount: getRefundInputTotal(order, input),
+        currencyCode: order.currencyCode,
+        state: 'Failed',
+        errorMessage,
+      });
+      continue;
+    }
+    const result = refundOrder as RefundFragment;
+    refunds.push({
+      method,
+      amount: result.items + result.shipping + result.adjustment,
+      currencyCode: order.currencyCode,
+      state: result.state,
+    });
+  }
+  return refunds;
+}
+
+/**
+ * Split the refund into a refund per settled payment, without exceeding the amount that is left to refund on a payment.
+ * Declined, cancelled and not yet settled payments are skipped.
+ *
+ * Each order line is refunded as a whole via a single payment, because Vendure selects the same items again
+ * when a line is refunded via multiple payments. Vendure requires each refund to contain order lines or shipping,
+ * so payments without lines get the shipping, and the adjustment of each refund makes up the difference.
+ */
+export function distributeRefund(
+  order: OrderDetailFragment,
+  cancellation: OrderCancellation
+): RefundOrderInput[] {
+  const lines = cancellation.lines.map(({ orderLineId, quantity }) => {
+    const line = order.lines.find((l) => String(l.id) === String(orderLineId));
+    if (!line) {
+      throw Error(`No order line found with id ${orderLineId}`);
+    }
+    return {
+      orderLineId,
+      quantity,
+      amount: line.proratedUnitPriceWithTax * quantity,
+    };
+  });
+  const shipping = cancellation.includeShipping ? order.shippingWithTax : 0;
+  const refundTotal =
+    lines.reduce((total, line) => total + line.amount, 0) +
+    shipping +
+    cancellation.adjustment;
+  const payments = (order.payments ?? [])
+    .filter((payment) => payment.state === 'Settled')
+    .map((payment) => ({
+      id: payment.id,
+      refundable:
+        payment.amount -
+        payment.refunds
+          .filter((refund) => refund.state !== 'Failed')
+          .reduce((total, refund) => total + refund.total, 0),
+    }))
+    .filter((payment) => payment.refundable > 0);
+  if (!payments.length) {
+    throw Error(`Order ${order.code} has no settled payments to refund`);
+  }
+  const refundable = payments.reduce((total, p) => total + p.refundable, 0);
+  if (refundTotal > refundable) {
+    throw Error(
+      `Refund of ${refundTotal} exceeds the refundable amount of ${refundable}`
+    );
+  }
+  const inputs =
+    assignToPayments(
+      allocateRefund(refundTotal, payments),
       lines,
-      reason: 'Manual refund',
-      paymentId: order.payments![0].id,
-      adjustment: 0,
-      shipping: order.shipping,
-    })
-    .toPromise();
-  const errorResult = refundOrder as RefundOrderStateError;
-  if (errorResult.errorCode) {
-    throw Error(`${errorResult.errorCode} - ${errorResult.orderState}`);
+      shipping,
+      cancellation.reason
+    ) ??
+    // Use as few payments as possible by starting with the largest ones
+    assignToPayments(
+      allocateRefund(
+        refundTotal,
+        [...payments].sort((a, b) => b.refundable - a.refundable)
+      ),
+      lines,
+      shipping,
+      cancellation.reason
+    );
+  if (!inputs) {
+    throw Error(
+      `Refund of ${refundTotal} needs to be divided over multiple payments, but not enough order lines or shipping are refunded. Please refund manually.`
+    );
   }
+  return inputs;
+}
+
+function allocateRefund(
+  refundTotal: number,
+  payments: Array<{ id: string; refundable: number }>
+): Array<{ paymentId: string; amount: number }> {
+  const allocations: Array<{ paymentId: string; amount: number }> = [];
+  let remaining = refundTotal;
+  for (const payment of payments) {
+    if (remaining <= 0 && allocations.length) {
+      break;
+    }
+    const amount = Math.min(remaining, payment.refundable);
+    allocations.push({ paymentId: payment.id, amount });
+    remaining -= amount;
+  }
+  return allocations;
+}
+
+/**
+ * Assign every line to the allocation with the most amount left, and divide the shipping over the allocations without lines.
+ * Returns undefined when an allocation would get neither lines nor shipping
+ */
+function assignToPayments(
+  allocations: Array<{ paymentId: string; amount: number }>,
+  lines: Array<{ orderLineId: string; quantity: number; amount: number }>,
+  shipping: number,
+  reason?: string
+): RefundOrderInput[] | undefined {
+  const assignments = allocations.map((allocation) => ({
+    allocation,
+    lines: [] as OrderLineInput[],
+    amount: 0,
+    shipping: 0,
+  }));
+  const mostLeft = () =>
+    assignments.reduce((best, a) =>
+      a.allocation.amount - a.amount > best.allocation.amount - best.amount
+        ? a
+        : best
+    );
+  for (const line of [...lines].sort((a, b) => b.amount - a.amount)) {
+    const assignment = mostLeft();
+    assignment.lines.push({
+      orderLineId: line.orderLineId,
+      quantity: line.quantity,
+    });
+    assignment.amount += line.amount;
+  }
+  const withoutLines = assignments.filter((a) => !a.lines.length);
+  if (withoutLines.length > shipping) {
+    return undefined;
+  }
+  if (withoutLines.length) {
+    const share = Math.floor(shipping / withoutLines.length);
+    withoutLines.forEach((a, index) => {
+      a.shipping =
+        index === 0 ? shipping - share * (withoutLines.length - 1) : share;
+    });
+  } else if (shipping) {
+    mostLeft().shipping = shipping;
+  }
+  return assignments.map((a) => ({
+    paymentId: a.allocation.paymentId,
+    lines: a.lines,
+    shipping: a.shipping,
+    adjustment: a.allocation.amount - a.amount - a.shipping,
+    reason: reason || 'Manual refund',
+  }));
+}
+
+function getRefundInputTotal(
+  order: OrderDetailFragment,
+  input: RefundOrderInput
+): number {
+  const itemTotal = input.lines.reduce((total, { orderLineId, quantity }) => {
+    const line = order.lines.find((l) => String(l.id) === String(orderLineId));
+    return total + (line?.proratedUnitPriceWithTax ?? 0) * quantity;
+  }, 0);
+  return itemTotal + input.shipping + input.adjustment;
 }
 
 export async function cancel(
   dataService: DataService,
-  order: OrderDetailFragment
+  order: OrderDetailFragment,
+  cancellation?: OrderCancellation
 ): Promise<void> {
+  const lines = (cancellation ?? getFullCancellation(order)).lines.filter(
+    (line) => line.quantity > 0
+  );
+  if (cancellation && !lines.length) {
+    // Cancelling without lines would cancel the entire order
+    return;
+  }
   const { cancelOrder } = await dataService.order
     .cancelOrder({
-      lines: order.lines.map((line) => ({
-        quantity: line.quantity,
-        orderLineId: String(line.id),
-      })),
-      reason: 'Manual cancel',
+      lines,
+      reason: cancellation?.reason || 'Manual cancel',
       orderId: order.id,
-      cancelShipping: true,
+      cancelShipping: cancellation?.includeShipping ?? true,
     })
     .toPromise();
   const errorResult = cancelOrder as ErrorResult;
@@ -16,7 +16,11 @@ import { AdminUiPlugin } from '@vendure/admin-ui-plugin';
 import { createSettledOrder } from '../../test/src/shop-utils';
 import { testPaymentMethod } from '../../test/src/test-payment-method';
 import path from 'path';
-import { cancelOrderButton, completeOrderButton } from '../src';
+import {
+  bulkOrderActions,
+  cancelOrderButton,
+  completeOrderButton,
+} from '../src';
 
 (async () => {
   registerInitializer('sqljs', new SqljsInitializer('__data__'));
@@ -36,7 +40,11 @@ import { cancelOrderButton, completeOrderButton } from '../src';
         route: 'admin',
         app: compileUiExtensions({
           outputPath: path.join(__dirname, '__admin-ui'),
-          extensions: [completeOrderButton, cancelOrderButton],
+          extensions: [
+            completeOrderButton,
+            cancelOrderButton,
+            bulkOrderActions,
+          ],
           devMode: true,
         }),
       }),
@@ -0,0 +1,34 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity } from 'typeorm';
+import { WebhookEventResult } from './coinbase.types';
+
+/**
+ * Incoming Coinbase webhook event, used to prevent processing the same event twice
+ */
+@Entity()
+export class CoinbaseWebhookEventEntity extends VendureEntity {
+  constructor(input?: DeepPartial<CoinbaseWebhookEventEntity>) {
+    super(input);
+  }
+
+  @Column({ unique: true, nullable: true })
+  eventId?: string;
+
+  @Column()
+  eventType!: string;
+
+  @Column({ nullable: true })
+  channelToken?: string;
+
+  @Column({ nullable: true })
+  orderCode?: string;
+
+  @Column({ nullable: true })
+  chargeCode?: string;
+
+  @Column({ type: 'varchar' })
+  result!: WebhookEventResult;
+
+  @Column({ type: 'text', nullable: true })
+  message?: string;
+}
@@ -1,13 +1,21 @@
 import { AxiosInstance, AxiosResponse } from 'axios';
+import crypto from 'crypto';
 import { ChargeInput, ChargeResult } from './coinbase.types';
 import { Logger } from '@vendure/core';
 import { loggerCtx } from './constants';
 const axios = require('axios').default;
 
 export class CoinbaseClient {
+  static signatureHeader = 'x-cc-webhook-signature';
   private readonly client: AxiosInstance;
 
-  constructor(private config: { apiKey: string; apiVersion?: string }) {
+  constructor(
+    private config: {
+      apiKey: string;
+      apiVersion?: string;
+      webhookSecret?: string;
+    }
+  ) {
     this.config.apiVersion = this.config.apiVersion || '2018-03-22';
     this.client = axios.create({
       baseURL: 'https://api.commerce.coinbase.com',
@@ -28,6 +36,24 @@ export class CoinbaseClient {
     return this.validateResponse(result);
   }
 
+  /**
+   * Verifies if the incoming webhook is actually from Coinbase,
+   * by comparing the HMAC SHA256 of the raw body with the given signature
+   */
+  isValidWebhook(rawBody: string | Buffer, signature?: string): boolean {
+    if (!rawBody || !signature || !this.config.webhookSecret) {
+      return false;
+    }
+    const hash = crypto
+      .createHmac('sha256', this.config.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+    return (
+      hash.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature))
+    );
+  }
+
   private validateResponse(result: AxiosResponse): any {
     if (result.data.error) {
       Logger.error(
@@ -1,16 +1,56 @@
-import { Body, Controller, Post } from '@nestjs/common';
-import { Resolver, Mutation } from '@nestjs/graphql';
+import {
+  Body,
+  Controller,
+  Headers,
+  Post,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Args, Mutation, Query, ResolveField, Resolver } from '@nestjs/graphql';
+import { Request } from 'express';
+import { RefundOrderResult } from '@vendure/common/lib/generated-types';
 import { CoinbaseService } from './coinbase.service';
-import { Ctx, Logger, RequestContext } from '@vendure/core';
-import { ChargeConfirmedWebhookEvent } from './coinbase.types';
+import {
+  Allow,
+  Ctx,
+  ErrorResultUnion,
+  ID,
+  isGraphQlErrorResult,
+  Logger,
+  Payment,
+  Permission,
+  Refund,
+  RequestContext,
+} from '@vendure/core';
+import {
+  ChargeConfirmedWebhookEvent,
+  CoinbasePaymentIntentResult,
+  CoinbaseRefundInput,
+  CoinbasePaymentStatus,
+  ReconciliationSummary,
+} from './coinbase.types';
 import { loggerCtx } from './constants';
+import { CoinbaseClient } from './coinbase.client';
+import { CoinbaseWebhookEventEntity } from './coinbase-webhook-event.entity';
 
 @Controller('payments')
 export class CoinbaseController {
   constructor(private service: CoinbaseService) {}
 
   @Post('coinbase')
-  async webhook(@Body() body: ChargeConfirmedWebhookEvent): Promise<void> {
+  async webhook(
+    @Req() req: Request,
+    @Body() body: ChargeConfirmedWebhookEvent,
+    @Headers(CoinbaseClient.signatureHeader) signature?: string
+  ): Promise<void> {
+    const rawBody = (req as any).rawBody || JSON.stringify(body); // TestEnvironment doesnt have middleware applied, so no rawBody available
+    if (!(await this.service.isValidWebhook(body?.event, rawBody, signature))) {
+      Logger.warn(
+        `Ignoring incoming webhook ${body?.event?.type} for order ${body?.event?.data?.metadata?.orderCode}, because it has a missing or invalid signature`,
+        loggerCtx
+      );
+      throw new UnauthorizedException('Invalid signature');
+    }
     try {
       await this.service.settlePayment(body.event);
     } catch (error: any) {
@@ -31,7 +71,69 @@ export class CoinbaseResolver {
   constructor(private service: CoinbaseService) {}
 
   @Mutation()
-  createCoinbasePaymentIntent(@Ctx() ctx: RequestContext): Promise<string> {
-    return this.service.createPaymentIntent(ctx);
+  createCoinbasePaymentIntent(
+    @Ctx() ctx: RequestContext,
+    @Args('paymentMethodCode') paymentMethodCode?: string
+  ): Promise<CoinbasePaymentIntentResult> {
+    return this.service.createPaymentIntent(ctx, paymentMethodCode);
+  }
+
+  @Query()
+  @Allow(Permission.Owner)
+  async coinbasePaymentStatus(
+    @Ctx() ctx: RequestContext,
+    @Args('orderCode') orderCode: string
+  ): Promise<CoinbasePaymentStatus | undefined> {
+    return this.service.getPaymentStatus(ctx, orderCode);
+  }
+}
+
+@Resolver('CoinbasePaymentIntentResult')
+export class CoinbasePaymentIntentResultResolver {
+  @ResolveField()
+  __resolveType(value: CoinbasePaymentIntentResult): string {
+    return isGraphQlErrorResult(value)
+      ? value.__typename
+      : 'CoinbasePaymentIntent';
+  }
+}
+
+@Resolver()
+export class CoinbaseAdminResolver {
+  constructor(private service: CoinbaseService) {}
+
+  @Query()
+  @Allow(Permission.ReadOrder)
+  coinbaseWebhookEvents(
+    @Ctx() ctx: RequestContext,
+    @Args('take') take?: number
+  ): Promise<CoinbaseWebhookEventEntity[]> {
+    return this.service.getWebhookEvents(ctx, take);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateOrder)
+  reconcileCoinbaseCharges(
+    @Ctx() ctx: RequestContext
+  ): Promise<ReconciliationSummary> {
+    return this.service.reconcileCharges(ctx);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateOrder)
+  refreshCoinbaseCharges(
+    @Ctx() ctx: RequestContext,
+    @Args('orderId') orderId: ID
+  ): Promise<Payment[]> {
+    return this.service.refreshCharges(ctx, orderId);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateOrder)
+  refundCoinbasePayment(
+    @Ctx() ctx: RequestContext,
+    @Args('input') input: CoinbaseRefundInput
+  ): Promise<ErrorResultUnion<RefundOrderResult, Refund>> {
+    return this.service.refundPayment(ctx, input);
   }
 }
@@ -0,0 +1,21 @@
+import { ErrorResult } from '@vendure/core';
+
+/**
+ * Returned when the active order is missing lines, a customer or a shipping method
+ */
+export class IncompleteOrderError implements ErrorResult {
+  readonly __typename = 'IncompleteOrderError';
+  readonly errorCode = 'INCOMPLETE_ORDER_ERROR';
+
+  constructor(public message: string) {}
+}
+
+/**
+ * Returned when no (eligible) Coinbase payment method is found, or when it is missing its apiKey or redirectUrl
+ */
+export class PaymentMethodNotConfiguredError implements ErrorResult {
+  readonly __typename = 'PaymentMethodNotConfiguredError';
+  readonly errorCode = 'PAYMENT_METHOD_NOT_CONFIGURED_ERROR';
+
+  constructor(public message: string) {}
+}
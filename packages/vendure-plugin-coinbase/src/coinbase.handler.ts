@@ -1,5 +1,6 @@
 import { LanguageCode } from '@vendure/common/lib/generated-types';
 import {
+  CancelPaymentResult,
   CreatePaymentErrorResult,
   CreatePaymentResult,
   CreateRefundResult,
@@ -8,6 +9,7 @@ import {
   SettlePaymentResult,
 } from '@vendure/core';
 import { loggerCtx } from './constants';
+import { CoinbaseRefundInput } from './coinbase.types';
 
 export const coinbaseHandler = new PaymentMethodHandler({
   code: 'coinbase-payment-handler',
@@ -22,6 +24,18 @@ export const coinbaseHandler = new PaymentMethodHandler({
       type: 'string',
       label: [{ languageCode: LanguageCode.en, value: 'API Key' }],
     },
+    webhookSecret: {
+      type: 'string',
+      label: [
+        { languageCode: LanguageCode.en, value: 'Webhook shared secret' },
+      ],
+      description: [
+        {
+          languageCode: LanguageCode.en,
+          value: 'Used to verify the signature of incoming webhooks',
+        },
+      ],
+    },
     redirectUrl: {
       type: 'string',
       label: [{ languageCode: LanguageCode.en, value: 'Redirect URL' }],
@@ -44,16 +58,21 @@ export const coinbaseHandler = new PaymentMethodHandler({
     if (ctx.apiType !== 'admin') {
       throw Error(`CreatePayment is not allowed for apiType '${ctx.apiType}'`);
     }
+    // The resulting state is determined by the status of the charge on Coinbase
+    const { paymentState, paymentAmount, ...paymentMetadata } = metadata;
     return {
-      amount,
-      state: 'Settled' as const,
+      amount: paymentAmount ?? amount, // Partial payments have a different amount
+      state: paymentState === 'Authorized' ? 'Authorized' : 'Settled',
       transactionId: metadata.paymentId,
-      metadata, // Store all given metadata on a payment
+      metadata: paymentMetadata, // Store all given metadata on a payment
     };
   },
   settlePayment: async (): Promise<SettlePaymentResult> => {
     return { success: true };
   },
+  cancelPayment: async (): Promise<CancelPaymentResult> => {
+    return { success: true };
+  },
   createRefund: async (
     ctx,
     input,
@@ -61,16 +80,29 @@ export const coinbaseHandler = new PaymentMethodHandler({
     order,
     payment
   ): Promise<CreateRefundResult> => {
-    Logger.warn(
-      `This plugin does not support refunds. You need to manually refund ${payment.transactionId} via Coinbase`,
-      loggerCtx
-    );
+    // Coinbase doesn't support refunds via the API. Refunds are done manually and recorded via 'refundCoinbasePayment'
+    const { transactionHash, network } = input as Partial<CoinbaseRefundInput>;
+    if (!transactionHash || !network) {
+      Logger.warn(
+        `This plugin does not support refunds. You need to manually refund ${payment.transactionId} via Coinbase`,
+        loggerCtx
+      );
+      return {
+        state: 'Failed',
+        metadata: {
+          public: {
+            message: `Coinbase doesn't support refunds via its API. Refund ${payment.transactionId} manually via Coinbase, and then record it with the 'Record refund' button of the Coinbase charge on the order detail page, or with the 'refundCoinbasePayment' mutation`,
+          },
+        },
+      };
+    }
     return {
-      state: 'Failed',
+      state: 'Settled',
+      transactionId: transactionHash,
       metadata: {
-        public: {
-          message: `This plugin does not support refunds. You need to manually refund ${payment.transactionId} via Coinbase`,
-        },
+        transactionHash,
+        network,
+        public: { transactionHash, network },
       },
     };
   },
@@ -4,25 +4,169 @@ import {
   VendurePlugin,
 } from '@vendure/core';
 import gql from 'graphql-tag';
-import { CoinbaseController, CoinbaseResolver } from './coinbase.controller';
+import { AdminUiExtension } from '@vendure/ui-devkit/compiler';
+import path from 'path';
+import {
+  CoinbaseAdminResolver,
+  CoinbaseController,
+  CoinbasePaymentIntentResultResolver,
+  CoinbaseResolver,
+} from './coinbase.controller';
 import { coinbaseHandler } from './coinbase.handler';
 import { CoinbaseService } from './coinbase.service';
+import { createRawBodyMiddleWare } from '../../util/src/raw-body';
+import { PLUGIN_INIT_OPTIONS } from './constants';
+import { CoinbasePluginOptions } from './coinbase.types';
+import { customFields } from './custom-fields';
+import { CoinbaseWebhookEventEntity } from './coinbase-webhook-event.entity';
 
 @VendurePlugin({
   imports: [PluginCommonModule],
   controllers: [CoinbaseController],
-  providers: [CoinbaseService],
+  entities: [CoinbaseWebhookEventEntity],
+  providers: [
+    CoinbaseService,
+    {
+      provide: PLUGIN_INIT_OPTIONS,
+      useFactory: () => CoinbasePlugin.options,
+    },
+  ],
   shopApiExtensions: {
     schema: gql`
+      type CoinbaseChargeTimelineEntry {
+        time: DateTime!
+        status: String!
+        context: String
+      }
+      type CoinbaseCryptoAmount {
+        network: String!
+        amount: String!
+        currency: String!
+      }
+      type CoinbaseReceivedPayment {
+        network: String!
+        transactionId: String
+        status: String!
+        amount: String!
+        currency: String!
+      }
+      type CoinbasePaymentStatus {
+        code: String!
+        status: String
+        timeline: [CoinbaseChargeTimelineEntry!]!
+        expectedAmounts: [CoinbaseCryptoAmount!]!
+        receivedPayments: [CoinbaseReceivedPayment!]!
+        expiresAt: DateTime
+      }
+      type CoinbasePaymentIntent {
+        url: String!
+        chargeCode: String!
+      }
+      type IncompleteOrderError implements ErrorResult {
+        errorCode: ErrorCode!
+        message: String!
+      }
+      type PaymentMethodNotConfiguredError implements ErrorResult {
+        errorCode: ErrorCode!
+        message: String!
+      }
+      union CoinbasePaymentIntentResult =
+          CoinbasePaymentIntent
+        | NoActiveOrderError
+        | IncompleteOrderError
+        | PaymentMethodNotConfiguredError
+      extend type Mutation {
+        createCoinbasePaymentIntent(
+          paymentMethodCode: String
+        ): CoinbasePaymentIntentResult!
+      }
+      extend type Query {
+        coinbasePaymentStatus(orderCode: String!): CoinbasePaymentStatus
+      }
+    `,
+    resolvers: [CoinbaseResolver, CoinbasePaymentIntentResultResolver],
+  },
+  adminApiExtensions: {
+    schema: gql`
+      type CoinbaseReconciliationSummary {
+        settled: [String!]!
+        underpaid: [String!]!
+        expired: [String!]!
+        pending: [String!]!
+        failed: [String!]!
+      }
+      input CoinbaseRefundInput {
+        lines: [OrderLineInput!]!
+        shipping: Int!
+        adjustment: Int!
+        paymentId: ID!
+        reason: String
+        transactionHash: String!
+        network: String!
+      }
+      type CoinbaseWebhookEvent {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        eventId: String
+        eventType: String!
+        orderCode: String
+        chargeCode: String
+        """
+        Processing, Authorized, Settled, Declined, Ignored or Failed
+        """
+        result: String!
+        message: String
+      }
+      extend type Query {
+        """
+        The most recent incoming Coinbase webhook events of the current channel
+        """
+        coinbaseWebhookEvents(take: Int): [CoinbaseWebhookEvent!]!
+      }
       extend type Mutation {
-        createCoinbasePaymentIntent: String!
+        """
+        Check the status of all outstanding Coinbase charges of the current channel
+        """
+        reconcileCoinbaseCharges: CoinbaseReconciliationSummary!
+        """
+        Re-fetch the Coinbase charges of the given order and update the charge details of its payments
+        """
+        refreshCoinbaseCharges(orderId: ID!): [Payment!]!
+        """
+        Record a crypto refund that was done manually via Coinbase. The refund is created as Settled
+        """
+        refundCoinbasePayment(input: CoinbaseRefundInput!): RefundOrderResult!
       }
     `,
-    resolvers: [CoinbaseResolver],
+    resolvers: [CoinbaseAdminResolver],
   },
   configuration: (config: RuntimeVendureConfig) => {
     config.paymentOptions.paymentMethodHandlers.push(coinbaseHandler);
+    config.customFields.Order.push(...customFields.Order!);
+    // save rawBody for signature verification
+    config.apiOptions.middleware.push(
+      createRawBodyMiddleWare('/payments/coinbase*')
+    );
     return config;
   },
 })
-export class CoinbasePlugin {}
+export class CoinbasePlugin {
+  static options: CoinbasePluginOptions = {};
+
+  static init(options: CoinbasePluginOptions): typeof CoinbasePlugin {
+    this.options = options;
+    return CoinbasePlugin;
+  }
+
+  static ui: AdminUiExtension = {
+    extensionPath: path.join(__dirname, 'ui'),
+    ngModules: [
+      {
+        type: 'shared',
+        ngModuleFileName: 'coinbase-charge.module.ts',
+        ngModuleName: 'CoinbaseChargeModule',
+      },
+    ],
+  };
+}
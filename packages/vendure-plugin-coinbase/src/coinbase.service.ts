@@ -1,72 +1,535 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  HistoryEntryType,
+  RefundOrderResult,
+} from '@vendure/common/lib/generated-types';
 import {
   ActiveOrderService,
+  Channel,
   ChannelService,
+  ConfigService,
   EntityHydrator,
   ErrorResult,
+  ErrorResultUnion,
+  ForbiddenError,
+  HistoryService,
+  ID,
+  idsAreEqual,
+  JobQueue,
+  JobQueueService,
   Logger,
+  NoActiveOrderError,
+  Order,
   OrderService,
+  OrderState,
   OrderStateTransitionError,
+  Payment,
+  PaymentMetadata,
   PaymentMethodService,
+  ProcessContext,
+  Refund,
   RequestContext,
+  SerializedRequestContext,
+  TransactionalConnection,
 } from '@vendure/core';
 import { coinbaseHandler } from './coinbase.handler';
-import { loggerCtx } from './constants';
+import { loggerCtx, PLUGIN_INIT_OPTIONS } from './constants';
 import { CoinbaseClient } from './coinbase.client';
-import { ChargeConfirmedWebhookEvent } from './coinbase.types';
+import {
+  ChargeConfirmedWebhookEvent,
+  ChargeOutcome,
+  CoinbaseRefundInput,
+  CoinbasePaymentIntentResult,
+  CoinbasePaymentStatus,
+  CoinbasePluginOptions,
+  Data,
+  ReceivedCryptoPayment,
+  ReconciliationSummary,
+  WebhookEventType,
+} from './coinbase.types';
+import { CoinbaseOrderCustomFields } from './custom-fields';
+import { CoinbaseWebhookEventEntity } from './coinbase-webhook-event.entity';
+import {
+  IncompleteOrderError,
+  PaymentMethodNotConfiguredError,
+} from './coinbase.errors';
+
+const processableEvents: WebhookEventType[] = [
+  'charge:pending',
+  'charge:confirmed',
+  'charge:failed',
+  'charge:delayed',
+  'charge:resolved',
+];
+
+/**
+ * Orders in these states can still have an outstanding charge
+ */
+const reconcilableOrderStates: OrderState[] = [
+  'AddingItems',
+  'ArrangingPayment',
+  'PaymentAuthorized',
+];
+
+/**
+ * Events that are still Processing after this time are considered to be interrupted, for example by a crash,
+ * and are processed again when Coinbase retries them
+ */
+const processingTimeoutMs = 5 * 60 * 1000;
+
+interface ReconciliationJobData {
+  ctx: SerializedRequestContext;
+}
 
 @Injectable()
-export class CoinbaseService {
+export class CoinbaseService
+  implements OnModuleInit, OnApplicationBootstrap, OnApplicationShutdown
+{
+  private jobQueue!: JobQueue<ReconciliationJobData>;
+  private reconciliationInterval?: NodeJS.Timeout;
+
   constructor(
     private activeOrderService: ActiveOrderService,
     private orderService: OrderService,
     private channelService: ChannelService,
+    private configService: ConfigService,
     private paymentMethodService: PaymentMethodService,
-    private entityHydrator: EntityHydrator
+    private entityHydrator: EntityHydrator,
+    private connection: TransactionalConnection,
+    private historyService: HistoryService,
+    private jobQueueService: JobQueueService,
+    private processContext: ProcessContext,
+    @Inject(PLUGIN_INIT_OPTIONS) private options: CoinbasePluginOptions
   ) {}
 
-  async createPaymentIntent(ctx: RequestContext): Promise<string> {
+  async onModuleInit(): Promise<void> {
+    this.jobQueue = await this.jobQueueService.createQueue({
+      name: 'coinbase-reconciliation',
+      process: async ({ data }) => {
+        const ctx = RequestContext.deserialize(data.ctx);
+        const summary = await this.reconcileCharges(ctx);
+        Logger.info(
+          `Reconciled Coinbase charges for channel ${
+            ctx.channel.token
+          }: ${JSON.stringify(summary)}`,
+          loggerCtx
+        );
+        return summary;
+      },
+    });
+  }
+
+  onApplicationBootstrap(): void {
+    const minutes = this.options.reconciliationIntervalMinutes;
+    // Only the worker adds jobs, so multiple server instances don't reconcile the same charges
+    if (!minutes || !this.processContext.isWorker) {
+      return;
+    }
+    this.reconciliationInterval = setInterval(() => {
+      this.addReconciliationJobs().catch((e) =>
+        Logger.error(
+          `Failed to add Coinbase reconciliation jobs: ${e?.message}`,
+          loggerCtx,
+          e
+        )
+      );
+    }, minutes * 60 * 1000);
+  }
+
+  onApplicationShutdown(): void {
+    if (this.reconciliationInterval) {
+      clearInterval(this.reconciliationInterval);
+    }
+  }
+
+  /**
+   * Add a reconciliation job for every channel
+   */
+  async addReconciliationJobs(): Promise<void> {
+    const channels = await this.connection.getRepository(Channel).find();
+    for (const channel of channels) {
+      const ctx = await this.createContext(channel.token);
+      await this.jobQueue.add({ ctx: ctx.serialize() }, { retries: 0 });
+    }
+  }
+
+  /**
+   * Fetch the charges of all orders with an outstanding Coinbase charge,
+   * and settle or decline their payments with the same logic as incoming webhooks.
+   * Charges that already have a settled payment, like an underpaid charge, are skipped
+   */
+  async reconcileCharges(ctx: RequestContext): Promise<ReconciliationSummary> {
+    const summary: ReconciliationSummary = {
+      settled: [],
+      underpaid: [],
+      expired: [],
+      pending: [],
+      failed: [],
+    };
+    const orders = await this.connection
+      .getRepository(ctx, Order)
+      .createQueryBuilder('order')
+      .innerJoin('order.channels', 'channel')
+      .where('channel.id = :channelId', { channelId: ctx.channelId })
+      .andWhere('order.state IN (:...states)', {
+        states: reconcilableOrderStates,
+      })
+      .andWhere('order.customFields.coinbaseChargeCode IS NOT NULL')
+      .getMany();
+    for (const order of orders) {
+      const { coinbaseChargeCode, coinbasePaymentMethodCode } =
+        order.customFields as CoinbaseOrderCustomFields;
+      try {
+        const payments = await this.orderService.getOrderPayments(
+          ctx,
+          order.id
+        );
+        const isProcessed = payments.some(
+          (payment) =>
+            payment.metadata?.code === coinbaseChargeCode &&
+            payment.state === 'Settled'
+        );
+        if (isProcessed) {
+          continue;
+        }
+        const outcome = await this.processCharge(
+          ctx,
+          coinbaseChargeCode!,
+          order.code,
+          coinbasePaymentMethodCode ?? undefined
+        );
+        if (outcome?.state === 'Settled' && outcome.context === 'UNDERPAID') {
+          summary.underpaid.push(order.code);
+        } else if (outcome?.state === 'Settled') {
+          summary.settled.push(order.code);
+        } else if (outcome?.state === 'Declined') {
+          summary.expired.push(order.code);
+        } else {
+          summary.pending.push(order.code);
+        }
+      } catch (e: any) {
+        Logger.error(
+          `Failed to reconcile charge ${coinbaseChargeCode} for order ${order.code}: ${e?.message}`,
+          loggerCtx
+        );
+        summary.failed.push(order.code);
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Create a charge with the given Coinbase payment method, or with the first eligible Coinbase payment method
+   */
+  async createPaymentIntent(
+    ctx: RequestContext,
+    paymentMethodCode?: string
+  ): Promise<CoinbasePaymentIntentResult> {
     const order = await this.activeOrderService.getOrderFromContext(ctx);
     if (!order) {
-      throw Error('No active order found for session');
+      return new NoActiveOrderError();
     }
     await this.entityHydrator.hydrate(ctx, order, {
-      relations: ['lines', 'customer', 'shippingLines'],
+      relations: ['lines', 'customer', 'shippingLines', 'payments'],
     });
     if (!order.lines?.length) {
-      throw Error('Cannot create payment intent for empty order');
+      return new IncompleteOrderError(
+        'Cannot create payment intent for empty order'
+      );
     }
     if (!order.customer) {
-      throw Error('Cannot create payment intent for order without customer');
+      return new IncompleteOrderError(
+        'Cannot create payment intent for order without customer'
+      );
     }
     if (!order.shippingLines?.length) {
-      throw Error(
+      return new IncompleteOrderError(
         'Cannot create payment intent for order without shippingMethod'
       );
     }
-    const { apiKey, redirectUrl } = await this.getCoinbasePaymentMethod(ctx);
+    const paymentMethod = await this.findCoinbasePaymentMethod(
+      ctx,
+      paymentMethodCode,
+      order
+    );
+    if (paymentMethod instanceof PaymentMethodNotConfiguredError) {
+      return paymentMethod;
+    }
+    const { apiKey, redirectUrl, method } = paymentMethod;
     const client = new CoinbaseClient({ apiKey });
+    // Earlier partial payments, for example of an underpaid charge, don't need to be paid again
+    const amountDue = getAmountDue(order.totalWithTax, order.payments);
+    const existingCharge = await this.getReusableCharge(
+      client,
+      order,
+      method.code,
+      amountDue
+    );
+    if (existingCharge) {
+      Logger.info(
+        `Reusing existing charge ${existingCharge.code} for order ${order.code}`,
+        loggerCtx
+      );
+      return {
+        url: existingCharge.hosted_url,
+        chargeCode: existingCharge.code,
+      };
+    }
     const result = await client.createCharge({
       name: `Order ${order.code}`,
       description: `Order ${order.code}`,
       local_price: {
-        amount: `${(order.totalWithTax / 100).toFixed(2)}`,
+        amount: formatAmount(amountDue),
         currency: order.currencyCode,
       },
       metadata: {
         orderCode: order.code,
         channelToken: ctx.channel.token,
+        paymentMethodCode: method.code,
       },
       pricing_type: 'fixed_price',
       redirect_url: `${redirectUrl}/${order.code}`,
     });
-    return result.data.hosted_url;
+    const chargeFields: CoinbaseOrderCustomFields = {
+      coinbaseChargeCode: result.data.code,
+      coinbaseChargeAmount: amountDue,
+      coinbaseChargeCurrency: order.currencyCode,
+      coinbasePaymentMethodCode: method.code,
+    };
+    await this.orderService.updateCustomFields(ctx, order.id, chargeFields);
+    return {
+      url: result.data.hosted_url,
+      chargeCode: result.data.code,
+    };
   }
 
+  /**
+   * Get the status of the latest charge of the given order. Only allowed for the active order of the session,
+   * or when the configured OrderByCodeAccessStrategy grants access to the order
+   */
+  async getPaymentStatus(
+    ctx: RequestContext,
+    orderCode: string
+  ): Promise<CoinbasePaymentStatus | undefined> {
+    const order = await this.orderService.findOneByCode(ctx, orderCode);
+    if (!order) {
+      throw new ForbiddenError();
+    }
+    await this.entityHydrator.hydrate(ctx, order, {
+      relations: ['customer.user', 'payments'],
+    });
+    // The active order of the session is always accessible, other orders are checked the same way as the shop orderByCode query
+    const canAccessOrder =
+      idsAreEqual(order.id, ctx.session?.activeOrderId ?? undefined) ||
+      (await this.configService.orderOptions.orderByCodeAccessStrategy.canAccessOrder(
+        ctx,
+        order
+      ));
+    if (!canAccessOrder) {
+      throw new ForbiddenError();
+    }
+    const { coinbaseChargeCode, coinbasePaymentMethodCode } =
+      order.customFields as CoinbaseOrderCustomFields;
+    // The charge is removed from the order when it expired, so fall back to the latest Coinbase payment
+    const latestPayment = [...(order.payments ?? [])]
+      .reverse()
+      .find((payment) => payment.metadata?.code);
+    const chargeCode = coinbaseChargeCode ?? latestPayment?.metadata.code;
+    if (!chargeCode) {
+      return undefined;
+    }
+    const { apiKey } = await this.getCoinbasePaymentMethod(
+      ctx,
+      coinbaseChargeCode
+        ? coinbasePaymentMethodCode ?? undefined
+        : latestPayment?.method
+    );
+    const { data } = await new CoinbaseClient({ apiKey }).getCharge(chargeCode);
+    return {
+      code: data.code,
+      status: data.timeline?.[data.timeline.length - 1]?.status,
+      timeline: data.timeline ?? [],
+      expectedAmounts: Object.entries(data.pricing ?? {})
+        .filter(([network]) => network !== 'local')
+        .map(([network, price]) => ({ network, ...price })),
+      receivedPayments: getReceivedPayments(data),
+      expiresAt: data.expires_at,
+    };
+  }
+
+  /**
+   * Re-fetch the charges of the Coinbase payments of an order and update the charge details in the payment metadata.
+   * This only updates the metadata, the payment state is handled by webhooks and reconciliation.
+   */
+  async refreshCharges(ctx: RequestContext, orderId: ID): Promise<Payment[]> {
+    const payments = await this.orderService.getOrderPayments(ctx, orderId);
+    const chargePayments = payments.filter((payment) => payment.metadata?.code);
+    for (const payment of chargePayments) {
+      const { apiKey } = await this.getCoinbasePaymentMethod(
+        ctx,
+        payment.method
+      );
+      const { data } = await new CoinbaseClient({ apiKey }).getCharge(
+        payment.metadata.code
+      );
+      const outcome = getChargeOutcome(data);
+      payment.metadata = {
+        ...payment.metadata,
+        status: outcome?.status ?? payment.metadata.status,
+        context: outcome?.context ?? payment.metadata.context,
+        timeline: data.timeline,
+        addresses: data.addresses,
+        receivedPayments: getReceivedPayments(data),
+      };
+      await this.connection.getRepository(Payment).save(payment);
+    }
+    return chargePayments;
+  }
+
+  /**
+   * Refund a Coinbase payment that has been refunded manually via Coinbase.
+   * The transaction hash and network are passed to the Coinbase handler, which records the refund as Settled
+   */
+  async refundPayment(
+    ctx: RequestContext,
+    input: CoinbaseRefundInput
+  ): Promise<ErrorResultUnion<RefundOrderResult, Refund>> {
+    const payment = await this.connection.getEntityOrThrow(
+      ctx,
+      Payment,
+      input.paymentId
+    );
+    // Throws if the payment wasn't done with a Coinbase payment method
+    await this.getCoinbasePaymentMethod(ctx, payment.method);
+    return this.orderService.refundOrder(ctx, input);
+  }
+
+  /**
+   * Get the charge that was previously created for this order,
+   * if it is still open and was created for the current amount due, currency and payment method of the order
+   */
+  private async getReusableCharge(
+    client: CoinbaseClient,
+    order: Order,
+    paymentMethodCode: string,
+    amountDue: number
+  ): Promise<Data | undefined> {
+    const {
+      coinbaseChargeCode,
+      coinbaseChargeAmount,
+      coinbaseChargeCurrency,
+      coinbasePaymentMethodCode,
+    } = order.customFields as CoinbaseOrderCustomFields;
+    if (
+      !coinbaseChargeCode ||
+      coinbasePaymentMethodCode !== paymentMethodCode ||
+      coinbaseChargeAmount !== amountDue ||
+      coinbaseChargeCurrency !== order.currencyCode
+    ) {
+      return undefined;
+    }
+    try {
+      const { data } = await client.getCharge(coinbaseChargeCode);
+      const status = data.timeline?.[data.timeline.length - 1]?.status;
+      const isExpired = new Date(data.expires_at) < new Date();
+      if (!isExpired && (status === 'NEW' || status === 'PENDING')) {
+        return data;
+      }
+    } catch (e: any) {
+      Logger.warn(
+        `Unable to get existing charge ${coinbaseChargeCode} for order ${order.code}, creating a new charge: ${e?.message}`,
+        loggerCtx
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Process an incoming webhook event. The charge is always fetched from Coinbase,
+   * and its latest status determines if a payment is authorized, settled or declined.
+   */
   async settlePayment(
     event: ChargeConfirmedWebhookEvent['event']
   ): Promise<void> {
-    if (event?.type !== 'charge:confirmed') {
+    const repository = this.connection.getRepository(
+      CoinbaseWebhookEventEntity
+    );
+    const webhookEvent = new CoinbaseWebhookEventEntity({
+      eventId: event?.id,
+      eventType: event?.type ?? 'unknown',
+      channelToken: event?.data?.metadata?.channelToken,
+      orderCode: event?.data?.metadata?.orderCode,
+      chargeCode: event?.data?.code,
+      result: 'Processing',
+    });
+    // Coinbase retries webhooks, so the same event can be delivered multiple times, even concurrently.
+    // Inserting the event before processing makes the unique eventId reject duplicates
+    try {
+      await repository.insert(webhookEvent);
+    } catch (error: any) {
+      const existingEvent = event?.id
+        ? await repository.findOne({ eventId: event.id })
+        : undefined;
+      if (!existingEvent) {
+        throw error;
+      }
+      const isInterrupted =
+        existingEvent.result === 'Processing' &&
+        existingEvent.updatedAt.getTime() < Date.now() - processingTimeoutMs;
+      if (existingEvent.result !== 'Failed' && !isInterrupted) {
+        Logger.info(
+          `Event ${existingEvent.eventId} for order ${existingEvent.orderCode} has already been received with result ${existingEvent.result}, not processing it again`,
+          loggerCtx
+        );
+        return;
+      }
+      if (isInterrupted) {
+        Logger.warn(
+          `Event ${existingEvent.eventId} for order ${
+            existingEvent.orderCode
+          } has been Processing since ${existingEvent.updatedAt.toISOString()}, processing it again`,
+          loggerCtx
+        );
+      }
+      webhookEvent.id = existingEvent.id;
+    }
+    try {
+      const outcome = await this.processEvent(event);
+      webhookEvent.result = outcome?.state ?? 'Ignored';
+      webhookEvent.message = outcome?.status;
+    } catch (error: any) {
+      webhookEvent.result = 'Failed';
+      webhookEvent.message = error?.message;
+      throw error;
+    } finally {
+      await repository.save(webhookEvent);
+    }
+  }
+
+  /**
+   * Get the most recent incoming webhook events of the current channel
+   */
+  async getWebhookEvents(
+    ctx: RequestContext,
+    take = 50
+  ): Promise<CoinbaseWebhookEventEntity[]> {
+    return this.connection.getRepository(CoinbaseWebhookEventEntity).find({
+      where: { channelToken: ctx.channel.token },
+      order: { createdAt: 'DESC' },
+      take,
+    });
+  }
+
+  private async processEvent(
+    event: ChargeConfirmedWebhookEvent['event']
+  ): Promise<ChargeOutcome | undefined> {
+    if (!event?.type || !processableEvents.includes(event.type)) {
       Logger.info(
         `Incoming webhook is of type ${event?.type} for order ${event?.data?.metadata?.orderCode}, not processing this event.`,
         loggerCtx
@@ -84,22 +547,41 @@ export class CoinbaseService {
         )}`
       );
     }
-    const orderCode = event.data.metadata.orderCode;
-    const ctx = new RequestContext({
-      apiType: 'admin',
-      isAuthorized: true,
-      channel: await this.channelService.getChannelFromToken(
-        event.data.metadata.channelToken
-      ),
-      authorizedAsOwnerOnly: false,
-    });
-    const { apiKey, method } = await this.getCoinbasePaymentMethod(ctx);
+    const ctx = await this.createContext(event.data.metadata.channelToken);
+    return this.processCharge(
+      ctx,
+      event.data.code,
+      event.data.metadata.orderCode,
+      event.data.metadata.paymentMethodCode,
+      {
+        id: event.id,
+        eventType: event.type,
+      }
+    );
+  }
+
+  /**
+   * Fetch the charge from Coinbase and authorize, settle or decline the payment of the order,
+   * based on the latest status of the charge. Returns undefined if the charge has no status to act on.
+   */
+  async processCharge(
+    ctx: RequestContext,
+    chargeCode: string,
+    orderCode: string,
+    paymentMethodCode: string | undefined,
+    event: { id?: string; eventType?: string } = {}
+  ): Promise<ChargeOutcome | undefined> {
+    const { apiKey, method } = await this.getCoinbasePaymentMethod(
+      ctx,
+      paymentMethodCode
+    );
     const client = new CoinbaseClient({ apiKey });
-    const charge = await client.getCharge(event.data.code);
-    console.log(JSON.stringify(charge));
-    if (!charge.data.confirmed_at) {
-      Logger.error(
-        `Requested charge ${event.data.code} does not have 'confirmed_at' on Coinbase. This payment will not be settled.`,
+    const charge = await client.getCharge(chargeCode);
+    let outcome = getChargeOutcome(charge.data);
+    if (!outcome) {
+      // For example a NEW charge, for which the customer hasn't paid yet
+      Logger.verbose(
+        `Requested charge ${chargeCode} has no completed, pending or failed status on Coinbase, not processing charge for order ${orderCode}`,
         loggerCtx
       );
       return;
@@ -107,52 +589,367 @@ export class CoinbaseService {
     const order = await this.orderService.findOneByCode(ctx, orderCode);
     if (!order) {
       throw Error(
-        `Unable to find order ${orderCode}, unable to settle payment ${event.data.code}!`
+        `Unable to find order ${orderCode}, unable to settle payment ${chargeCode}!`
       );
     }
-    if (order.state !== 'ArrangingPayment') {
-      const transitionToStateResult = await this.orderService.transitionToState(
+    const metadata: PaymentMetadata = {
+      ...event,
+      code: chargeCode,
+      status: outcome.status,
+      context: outcome.context,
+      timeline: charge.data.timeline,
+      addresses: charge.data.addresses,
+      receivedPayments: getReceivedPayments(charge.data),
+      metadata: charge.data.metadata,
+    };
+    const payments = await this.orderService.getOrderPayments(ctx, order.id);
+    const existingPayment = payments.find(
+      (payment) =>
+        payment.metadata?.code === chargeCode &&
+        (payment.state === 'Authorized' || payment.state === 'Settled')
+    );
+    if (existingPayment?.state === 'Settled') {
+      Logger.info(
+        `Payment for charge ${chargeCode} of order ${orderCode} is already settled`,
+        loggerCtx
+      );
+      return outcome;
+    }
+    // Compare the received amount with what is left to pay, excluding earlier partial payments
+    const amountDue = getAmountDue(order.totalWithTax, payments, chargeCode);
+    const receivedAmount = getReceivedAmount(charge.data, order.currencyCode);
+    if (
+      outcome.context === 'UNDERPAID' &&
+      receivedAmount !== undefined &&
+      receivedAmount < amountDue
+    ) {
+      await this.processUnderpayment(
+        ctx,
+        order,
+        method.code,
+        {
+          ...metadata,
+          receivedAmount,
+          underpaidAmount: amountDue - receivedAmount,
+        },
+        receivedAmount,
+        existingPayment
+      );
+      return { ...outcome, state: 'Settled' };
+    }
+    if (
+      outcome.state !== 'Declined' &&
+      receivedAmount !== undefined &&
+      receivedAmount > amountDue
+    ) {
+      // The order is fully paid, but the admin needs to refund the difference
+      const overpaidAmount = receivedAmount - amountDue;
+      outcome = { ...outcome, state: 'Settled' };
+      metadata.receivedAmount = receivedAmount;
+      metadata.overpaidAmount = overpaidAmount;
+      const amount = `${formatAmount(overpaidAmount)} ${order.currencyCode}`;
+      await this.addOrderNote(
         ctx,
-        order.id,
-        'ArrangingPayment'
+        order,
+        `Customer overpaid Coinbase charge ${chargeCode} by ${amount}. Please refund the difference manually via Coinbase.`
       );
-      if (transitionToStateResult instanceof OrderStateTransitionError) {
-        throw Error(
-          `Error transitioning order ${order.code} from ${transitionToStateResult.fromState} to ${transitionToStateResult.toState}: ${transitionToStateResult.message}`
+      Logger.warn(
+        `Order ${orderCode} was overpaid by ${overpaidAmount} via charge ${chargeCode}`,
+        loggerCtx
+      );
+    }
+    if (existingPayment) {
+      // Existing Authorized payment: update its metadata and transition it
+      existingPayment.metadata = { ...existingPayment.metadata, ...metadata };
+      await this.connection.getRepository(Payment).save(existingPayment);
+      if (outcome.state === 'Settled') {
+        const result = await this.orderService.settlePayment(
+          ctx,
+          existingPayment.id
+        );
+        throwIfErrorResult(result, `Error settling payment for ${orderCode}`);
+        Logger.info(`Payment for order ${orderCode} settled`, loggerCtx);
+      } else if (outcome.state === 'Declined') {
+        const result = await this.orderService.cancelPayment(
+          ctx,
+          existingPayment.id
+        );
+        throwIfErrorResult(result, `Error cancelling payment for ${orderCode}`);
+        Logger.warn(
+          `Authorized payment for order ${orderCode} was cancelled, because charge ${chargeCode} is ${outcome.status}. This order needs manual attention.`,
+          loggerCtx
+        );
+        await this.clearCharge(ctx, order, chargeCode);
+      } else {
+        Logger.info(
+          `Payment for order ${orderCode} is still authorized: ${
+            outcome.status
+          } ${outcome.context || ''}`,
+          loggerCtx
         );
       }
+      return outcome;
+    }
+    if (outcome.state === 'Declined') {
+      // Only remove the charge and leave a note: the order might still be an active order in AddingItems
+      Logger.info(
+        `Charge ${chargeCode} for order ${orderCode} is ${outcome.status}, removing the charge from the order`,
+        loggerCtx
+      );
+      await this.clearCharge(ctx, order, chargeCode);
+      await this.addOrderNote(
+        ctx,
+        order,
+        `Coinbase charge ${chargeCode} is ${outcome.status}, no payment was received`
+      );
+      return outcome;
     }
+    await this.transitionToState(ctx, order, 'ArrangingPayment');
     const addPaymentToOrderResult = await this.orderService.addPaymentToOrder(
       ctx,
       order.id,
       {
         method: method.code,
         metadata: {
-          id: event.id,
-          code: event.data.code,
-          addresses: event.data.addresses,
-          metadata: event.data.metadata,
+          ...metadata,
+          paymentState: outcome.state,
         },
       }
     );
-    if ((addPaymentToOrderResult as ErrorResult).errorCode) {
+    throwIfErrorResult(
+      addPaymentToOrderResult,
+      `Error adding payment to order ${orderCode}`
+    );
+    Logger.info(
+      `Payment for order ${orderCode} ${outcome.state.toLowerCase()}`,
+      loggerCtx
+    );
+    return outcome;
+  }
+
+  /**
+   * Remove the charge from the order, so a new charge is created for the next payment attempt
+   */
+  private async clearCharge(
+    ctx: RequestContext,
+    order: Order,
+    chargeCode: string
+  ): Promise<void> {
+    const { coinbaseChargeCode } =
+      order.customFields as CoinbaseOrderCustomFields;
+    if (coinbaseChargeCode !== chargeCode) {
+      // A newer charge has been created for this order in the meantime
+      return;
+    }
+    const chargeFields: CoinbaseOrderCustomFields = {
+      coinbaseChargeCode: null,
+      coinbaseChargeAmount: null,
+      coinbaseChargeCurrency: null,
+      coinbasePaymentMethodCode: null,
+    };
+    await this.orderService.updateCustomFields(ctx, order.id, chargeFields);
+  }
+
+  /**
+   * Settle the received amount as partial payment: either by adding a new payment,
+   * or by settling the already authorized payment with the received amount.
+   * Transitions the order to the configured `underpaidOrderState`, if any.
+   */
+  private async processUnderpayment(
+    ctx: RequestContext,
+    order: Order,
+    methodCode: string,
+    metadata: PaymentMetadata,
+    receivedAmount: number,
+    existingPayment?: Payment
+  ): Promise<void> {
+    if (existingPayment) {
+      existingPayment.amount = receivedAmount;
+      existingPayment.metadata = { ...existingPayment.metadata, ...metadata };
+      await this.connection.getRepository(Payment).save(existingPayment);
+      const result = await this.orderService.settlePayment(
+        ctx,
+        existingPayment.id
+      );
+      throwIfErrorResult(
+        result,
+        `Error settling partial payment for ${order.code}`
+      );
+    } else {
+      await this.transitionToState(ctx, order, 'ArrangingPayment');
+      const result = await this.orderService.addPaymentToOrder(ctx, order.id, {
+        method: methodCode,
+        metadata: {
+          ...metadata,
+          paymentState: 'Settled',
+          paymentAmount: receivedAmount,
+        },
+      });
+      throwIfErrorResult(
+        result,
+        `Error adding partial payment to order ${order.code}`
+      );
+    }
+    const received = formatAmount(receivedAmount);
+    const outstanding = formatAmount(metadata.underpaidAmount);
+    await this.addOrderNote(
+      ctx,
+      order,
+      `Customer underpaid Coinbase charge ${metadata.code}: received ${received} ${order.currencyCode}, ${outstanding} ${order.currencyCode} is still outstanding.`
+    );
+    Logger.warn(
+      `Order ${order.code} was underpaid by ${metadata.underpaidAmount} via charge ${metadata.code}`,
+      loggerCtx
+    );
+    if (this.options.underpaidOrderState) {
+      await this.transitionToState(
+        ctx,
+        order,
+        this.options.underpaidOrderState
+      );
+    }
+  }
+
+  private async transitionToState(
+    ctx: RequestContext,
+    order: Order,
+    state: OrderState
+  ): Promise<void> {
+    if (order.state === state) {
+      return;
+    }
+    const transitionToStateResult = await this.orderService.transitionToState(
+      ctx,
+      order.id,
+      state
+    );
+    if (transitionToStateResult instanceof OrderStateTransitionError) {
       throw Error(
-        `Error adding payment to order ${orderCode}: ${
-          (addPaymentToOrderResult as ErrorResult).message
-        }`
+        `Error transitioning order ${order.code} from ${transitionToStateResult.fromState} to ${transitionToStateResult.toState}: ${transitionToStateResult.message}`
+      );
+    }
+  }
+
+  private async addOrderNote(
+    ctx: RequestContext,
+    order: Order,
+    note: string
+  ): Promise<void> {
+    await this.historyService.createHistoryEntryForOrder(
+      {
+        ctx,
+        orderId: order.id,
+        type: HistoryEntryType.ORDER_NOTE,
+        data: { note },
+      },
+      false
+    );
+  }
+
+  /**
+   * Verifies the signature of an incoming webhook with the webhookSecret
+   * of the Coinbase payment method of the channel given in the event metadata
+   */
+  async isValidWebhook(
+    event: ChargeConfirmedWebhookEvent['event'],
+    rawBody: string | Buffer,
+    signature?: string
+  ): Promise<boolean> {
+    const channelToken = event?.data?.metadata?.channelToken;
+    if (!channelToken || !signature) {
+      return false;
+    }
+    // The metadata isn't verified yet, so an unknown channel or payment method is treated as an invalid webhook
+    let ctx: RequestContext;
+    try {
+      ctx = await this.createContext(channelToken);
+    } catch (e: any) {
+      Logger.warn(
+        `Unable to verify incoming webhook for channel ${channelToken}: ${e?.message}`,
+        loggerCtx
+      );
+      return false;
+    }
+    const paymentMethod = await this.findCoinbasePaymentMethod(
+      ctx,
+      event?.data?.metadata?.paymentMethodCode
+    );
+    if (paymentMethod instanceof PaymentMethodNotConfiguredError) {
+      Logger.warn(
+        `Unable to verify incoming webhook for channel ${channelToken}: ${paymentMethod.message}`,
+        loggerCtx
+      );
+      return false;
+    }
+    const { apiKey, webhookSecret, method } = paymentMethod;
+    if (!webhookSecret) {
+      Logger.error(
+        `No webhookSecret configured for payment method ${method.code} in channel ${channelToken}, unable to verify incoming webhooks`,
+        loggerCtx
       );
+      return false;
+    }
+    const client = new CoinbaseClient({ apiKey, webhookSecret });
+    return client.isValidWebhook(rawBody, signature);
+  }
+
+  private async createContext(channelToken: string): Promise<RequestContext> {
+    return new RequestContext({
+      apiType: 'admin',
+      isAuthorized: true,
+      channel: await this.channelService.getChannelFromToken(channelToken),
+      authorizedAsOwnerOnly: false,
+    });
+  }
+
+  /**
+   * Get the Coinbase payment method with the given code, or the first Coinbase payment method of the channel.
+   * When an order is given, only payment methods that are eligible for the order are considered.
+   * Charges created before multiple payment methods were supported don't have a paymentMethodCode in their metadata.
+   */
+  private async getCoinbasePaymentMethod(
+    ctx: RequestContext,
+    paymentMethodCode?: string,
+    order?: Order
+  ) {
+    const result = await this.findCoinbasePaymentMethod(
+      ctx,
+      paymentMethodCode,
+      order
+    );
+    if (result instanceof PaymentMethodNotConfiguredError) {
+      throw Error(result.message);
     }
-    Logger.info(`Payment for order ${orderCode} settled`, loggerCtx);
+    return result;
   }
 
-  private async getCoinbasePaymentMethod(ctx: RequestContext) {
-    let { items } = await this.paymentMethodService.findAll(ctx);
-    const method = items.find(
-      (item) => item.handler.code === coinbaseHandler.code
+  private async findCoinbasePaymentMethod(
+    ctx: RequestContext,
+    paymentMethodCode?: string,
+    order?: Order
+  ) {
+    const { items } = await this.paymentMethodService.findAll(ctx);
+    let methods = items.filter(
+      (item) =>
+        item.handler.code === coinbaseHandler.code &&
+        (!paymentMethodCode || item.code === paymentMethodCode)
     );
+    if (order) {
+      const quotes = await this.paymentMethodService.getEligiblePaymentMethods(
+        ctx,
+        order
+      );
+      methods = methods.filter(
+        (method) =>
+          quotes.find((quote) => quote.code === method.code)?.isEligible
+      );
+    }
+    const method = methods[0];
     if (!method) {
-      throw Error(
-        `No paymentMethod configured with handler ${coinbaseHandler.code}`
+      return new PaymentMethodNotConfiguredError(
+        `No ${order ? 'eligible ' : ''}paymentMethod ${
+          paymentMethodCode ?? ''
+        } configured with handler ${coinbaseHandler.code}`
       );
     }
     const apiKey = method.handler.args.find((arg) => arg.name === 'apiKey');
@@ -164,12 +961,16 @@ export class CoinbaseService {
         `CreatePaymentIntent failed, because no apiKey or redirect is configured for ${method.code}`,
         loggerCtx
       );
-      throw Error(
-        `Paymentmethod ${method.code} has no apiKey, sharedSecret or redirectUrl configured`
+      return new PaymentMethodNotConfiguredError(
+        `Paymentmethod ${method.code} has no apiKey or redirectUrl configured`
       );
     }
+    const webhookSecret = method.handler.args.find(
+      (arg) => arg.name === 'webhookSecret'
+    );
     return {
       apiKey: apiKey.value,
+      webhookSecret: webhookSecret?.value,
       redirectUrl: redirectUrl.value.endsWith('/')
         ? redirectUrl.value.slice(0, -1)
         : redirectUrl.value, // remove appending slash
@@ -177,3 +978,107 @@ export class CoinbaseService {
     };
   }
 }
+
+/**
+ * Determine the payment state based on the latest status in the timeline of a charge.
+ * Returns undefined if the charge is new and not expired yet.
+ */
+export function getChargeOutcome(charge: Data): ChargeOutcome | undefined {
+  const latest = charge.timeline?.[charge.timeline.length - 1];
+  if (!latest) {
+    return charge.confirmed_at
+      ? { state: 'Settled', status: 'COMPLETED' }
+      : undefined;
+  }
+  switch (latest.status) {
+    case 'COMPLETED':
+    case 'RESOLVED':
+      return { state: 'Settled', status: latest.status };
+    case 'PENDING':
+      return { state: 'Authorized', status: latest.status };
+    case 'UNRESOLVED':
+      // Payment was received, but needs to be resolved by the merchant. For example when paid after expiry (DELAYED)
+      return {
+        state: 'Authorized',
+        status: latest.status,
+        context: latest.context,
+      };
+    case 'EXPIRED':
+    case 'CANCELED':
+      return { state: 'Declined', status: latest.status };
+    case 'NEW':
+      if (charge.expires_at && new Date(charge.expires_at) < new Date()) {
+        return { state: 'Declined', status: 'EXPIRED' };
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the crypto payments that were detected for a charge
+ */
+export function getReceivedPayments(charge: Data): ReceivedCryptoPayment[] {
+  return (charge.payments ?? [])
+    .filter((payment) => payment.value?.crypto)
+    .map((payment) => ({
+      network: payment.network,
+      transactionId: payment.transaction_id,
+      status: payment.status,
+      amount: payment.value.crypto.amount,
+      currency: payment.value.crypto.currency,
+    }));
+}
+
+/**
+ * Sum of the confirmed payments of a charge in the given local currency, in cents.
+ * Returns undefined if no confirmed payments in that currency exist
+ */
+export function getReceivedAmount(
+  charge: Data,
+  currencyCode: string
+): number | undefined {
+  const payments = (charge.payments || []).filter(
+    (payment) =>
+      payment.status === 'CONFIRMED' &&
+      payment.value?.local?.currency === currencyCode
+  );
+  if (!payments.length) {
+    return undefined;
+  }
+  return payments.reduce(
+    (sum, payment) =>
+      sum + Math.round(parseFloat(payment.value.local.amount) * 100),
+    0
+  );
+}
+
+/**
+ * The order total minus the settled and authorized payments, except the payments of the given charge
+ */
+export function getAmountDue(
+  totalWithTax: number,
+  payments: Payment[] = [],
+  excludedChargeCode?: string
+): number {
+  const paid = payments
+    .filter(
+      (payment) =>
+        (payment.state === 'Settled' || payment.state === 'Authorized') &&
+        (!excludedChargeCode || payment.metadata?.code !== excludedChargeCode)
+    )
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  return totalWithTax - paid;
+}
+
+function formatAmount(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+function throwIfErrorResult(result: unknown, message: string): void {
+  const error = result as ErrorResult;
+  if (error.errorCode) {
+    throw Error(`${message}: ${error.message}`);
+  }
+}
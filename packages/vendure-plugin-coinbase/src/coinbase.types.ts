@@ -1,6 +1,42 @@
+import { RefundOrderInput } from '@vendure/common/lib/generated-types';
+import { NoActiveOrderError, OrderState } from '@vendure/core';
+import {
+  IncompleteOrderError,
+  PaymentMethodNotConfiguredError,
+} from './coinbase.errors';
+
+export type ChargeStatus =
+  | 'NEW'
+  | 'PENDING'
+  | 'COMPLETED'
+  | 'EXPIRED'
+  | 'UNRESOLVED'
+  | 'RESOLVED'
+  | 'CANCELED'
+  | 'REFUND PENDING'
+  | 'REFUNDED';
+
+export interface CoinbasePluginOptions {
+  /**
+   * When a customer underpaid a charge, the received amount is added as a partial payment
+   * and the order stays in ArrangingPayment. Set a custom state to transition underpaid orders to that state instead.
+   * The state needs to be a valid transition from ArrangingPayment and PaymentAuthorized in your OrderProcess.
+   */
+  underpaidOrderState?: OrderState;
+  /**
+   * Periodically check all orders with an outstanding Coinbase charge, in case a webhook was missed.
+   * Disabled when not set.
+   */
+  reconciliationIntervalMinutes?: number;
+}
+
 export interface Timeline {
   time: Date;
-  status: string;
+  status: ChargeStatus;
+  /**
+   * Only set for UNRESOLVED charges. For example DELAYED, UNDERPAID or OVERPAID
+   */
+  context?: string;
 }
 
 export interface Metadata {
@@ -27,6 +63,7 @@ export interface Pricing {
   local: Local;
   bitcoin: Bitcoin;
   ethereum: Ethereum;
+  [network: string]: { amount: string; currency: string };
 }
 
 export interface OverpaymentAbsoluteThreshold {
@@ -46,6 +83,20 @@ export interface PaymentThreshold {
   underpayment_relative_threshold: string;
 }
 
+export interface ChargePayment {
+  network: string;
+  transaction_id: string;
+  status: 'NEW' | 'PENDING' | 'CONFIRMED' | 'FAILED';
+  detected_at: Date;
+  value: {
+    local: Local;
+    crypto: {
+      amount: string;
+      currency: string;
+    };
+  };
+}
+
 export interface Addresses {
   bitcoin: string;
   ethereum: string;
@@ -66,7 +117,7 @@ export interface Data {
   metadata: Metadata;
   pricing_type: string;
   pricing: Pricing;
-  payments: any[];
+  payments: ChargePayment[];
   payment_threshold: PaymentThreshold;
   addresses: Addresses;
   redirect_url: string;
@@ -87,6 +138,7 @@ export interface ChargeInput {
   metadata: {
     orderCode: string;
     channelToken: string;
+    paymentMethodCode: string;
   };
   pricing_type: 'fixed_price' | 'no_price';
   redirect_url: string;
@@ -95,17 +147,14 @@ export interface ChargeInput {
 export interface ChargeConfirmedWebhookEvent {
   event?: {
     id?: string;
-    type?:
-      | 'charge:created'
-      | 'charge:confirmed'
-      | 'charge:failed'
-      | 'charge:pending';
+    type?: WebhookEventType;
     data?: {
       id?: string;
       code?: string;
       metadata?: {
         orderCode?: string;
         channelToken?: string;
+        paymentMethodCode?: string;
       };
       addresses?: {
         [key: string]: string;
@@ -113,3 +162,88 @@ export interface ChargeConfirmedWebhookEvent {
     };
   };
 }
+
+export type WebhookEventType =
+  | 'charge:created'
+  | 'charge:confirmed'
+  | 'charge:failed'
+  | 'charge:delayed'
+  | 'charge:pending'
+  | 'charge:resolved';
+
+/**
+ * Result of processing an incoming webhook event: the resulting payment state, or whether it was ignored or failed.
+ * Events are stored as Processing while they are being processed
+ */
+export type WebhookEventResult =
+  | 'Processing'
+  | 'Authorized'
+  | 'Settled'
+  | 'Declined'
+  | 'Ignored'
+  | 'Failed';
+
+/**
+ * The Vendure payment state a charge results in, based on its latest status on Coinbase
+ */
+export interface ChargeOutcome {
+  state: 'Authorized' | 'Settled' | 'Declined';
+  status: ChargeStatus;
+  context?: string;
+}
+
+/**
+ * Order codes per result of a reconciliation run
+ */
+export interface ReconciliationSummary {
+  settled: string[];
+  /**
+   * Orders of which the received amount was added as a partial payment
+   */
+  underpaid: string[];
+  expired: string[];
+  pending: string[];
+  failed: string[];
+}
+
+export interface CryptoAmount {
+  network: string;
+  amount: string;
+  currency: string;
+}
+
+export interface ReceivedCryptoPayment extends CryptoAmount {
+  transactionId: string;
+  status: string;
+}
+
+export interface CoinbasePaymentIntent {
+  url: string;
+  chargeCode: string;
+}
+
+export type CoinbasePaymentIntentResult =
+  | CoinbasePaymentIntent
+  | NoActiveOrderError
+  | IncompleteOrderError
+  | PaymentMethodNotConfiguredError;
+
+/**
+ * Status of a charge as exposed to the customer via the Shop API
+ */
+export interface CoinbasePaymentStatus {
+  code: string;
+  status?: ChargeStatus;
+  timeline: Timeline[];
+  expectedAmounts: CryptoAmount[];
+  receivedPayments: ReceivedCryptoPayment[];
+  expiresAt?: Date;
+}
+
+/**
+ * Refund input with the transaction of the manual refund via Coinbase
+ */
+export interface CoinbaseRefundInput extends RefundOrderInput {
+  transactionHash: string;
+  network: string;
+}
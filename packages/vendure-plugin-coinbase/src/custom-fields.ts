@@ -0,0 +1,55 @@
+import { CustomFields, LanguageCode } from '@vendure/core';
+
+export interface CoinbaseOrderCustomFields {
+  coinbaseChargeCode?: string | null;
+  coinbaseChargeAmount?: number | null;
+  coinbaseChargeCurrency?: string | null;
+  coinbasePaymentMethodCode?: string | null;
+}
+
+export const customFields: CustomFields = {
+  Order: [
+    {
+      name: 'coinbaseChargeCode',
+      type: 'string',
+      public: false,
+      nullable: true,
+      readonly: true,
+      label: [{ languageCode: LanguageCode.en, value: 'Coinbase charge code' }],
+      ui: { tab: 'Coinbase' },
+    },
+    {
+      name: 'coinbaseChargeAmount',
+      type: 'int',
+      public: false,
+      nullable: true,
+      readonly: true,
+      label: [
+        { languageCode: LanguageCode.en, value: 'Coinbase charge amount' },
+      ],
+      ui: { tab: 'Coinbase' },
+    },
+    {
+      name: 'coinbaseChargeCurrency',
+      type: 'string',
+      public: false,
+      nullable: true,
+      readonly: true,
+      label: [
+        { languageCode: LanguageCode.en, value: 'Coinbase charge currency' },
+      ],
+      ui: { tab: 'Coinbase' },
+    },
+    {
+      name: 'coinbasePaymentMethodCode',
+      type: 'string',
+      public: false,
+      nullable: true,
+      readonly: true,
+      label: [
+        { languageCode: LanguageCode.en, value: 'Coinbase payment method' },
+      ],
+      ui: { tab: 'Coinbase' },
+    },
+  ],
+};
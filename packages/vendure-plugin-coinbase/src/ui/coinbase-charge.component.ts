@@ -0,0 +1,183 @@
+import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
+import { FormGroup } from '@angular/forms';
+import {
+  CustomDetailComponent,
+  DataService,
+  ModalService,
+  NotificationService,
+} from '@vendure/admin-ui/core';
+import { Observable } from 'rxjs';
+import { CoinbaseRefundDialogComponent } from './coinbase-refund-dialog.component';
+import { REFRESH_COINBASE_CHARGES, REFUND_COINBASE_PAYMENT } from './queries';
+
+interface CoinbaseCharge {
+  paymentId: string;
+  paymentState: string;
+  code: string;
+  status?: string;
+  context?: string;
+  timeline: { time: string; status: string; context?: string }[];
+  addresses: { network: string; address: string }[];
+  receivedPayments: {
+    network: string;
+    transactionId: string;
+    status: string;
+    amount: string;
+    currency: string;
+  }[];
+}
+
+@Component({
+  selector: 'coinbase-charge-component',
+  template: `
+    <div class="card" *ngFor="let charge of charges">
+      <div class="card-header">Coinbase charge {{ charge.code }}</div>
+      <div class="card-block">
+        <vdr-labeled-data label="Status">
+          {{ charge.status }}
+          <span *ngIf="charge.context">({{ charge.context }})</span>
+          - payment {{ charge.paymentState }}
+        </vdr-labeled-data>
+        <vdr-labeled-data label="Paid">
+          <div *ngFor="let payment of charge.receivedPayments">
+            {{ payment.amount }} {{ payment.currency }} via
+            {{ payment.network }} ({{ payment.status }})
+          </div>
+          <span *ngIf="!charge.receivedPayments.length">-</span>
+        </vdr-labeled-data>
+        <vdr-labeled-data label="Addresses">
+          <div *ngFor="let address of charge.addresses">
+            {{ address.network }}: {{ address.address }}
+          </div>
+        </vdr-labeled-data>
+        <vdr-labeled-data label="Timeline">
+          <div *ngFor="let entry of charge.timeline">
+            {{ entry.time | localeDate: 'short' }} - {{ entry.status }}
+            <span *ngIf="entry.context">({{ entry.context }})</span>
+          </div>
+        </vdr-labeled-data>
+      </div>
+      <div class="card-footer">
+        <a
+          class="btn btn-sm btn-link"
+          [href]="dashboardUrl + charge.code"
+          target="_blank"
+        >
+          Open in Coinbase
+        </a>
+        <button
+          class="btn btn-sm btn-secondary"
+          (click)="refresh()"
+          [disabled]="refreshing"
+        >
+          Refresh
+        </button>
+        <button
+          *ngIf="charge.paymentState === 'Settled'"
+          class="btn btn-sm btn-secondary"
+          (click)="refund(charge)"
+        >
+          Record refund
+        </button>
+      </div>
+    </div>
+  `,
+})
+export class CoinbaseChargeComponent implements CustomDetailComponent, OnInit {
+  entity$!: Observable<any>;
+  detailForm!: FormGroup;
+  dashboardUrl = 'https://commerce.coinbase.com/dashboard/payments/';
+  charges: CoinbaseCharge[] = [];
+  refreshing = false;
+  private order?: any;
+
+  constructor(
+    private dataService: DataService,
+    private changeDetector: ChangeDetectorRef,
+    private notificationService: NotificationService,
+    private modalService: ModalService
+  ) {}
+
+  ngOnInit(): void {
+    this.entity$.subscribe((order) => {
+      this.order = order;
+      this.charges = this.getCharges(order?.payments ?? []);
+      this.changeDetector.markForCheck();
+    });
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.order) {
+      return;
+    }
+    this.refreshing = true;
+    try {
+      const { refreshCoinbaseCharges } = await this.dataService
+        .mutate<any>(REFRESH_COINBASE_CHARGES, { orderId: this.order.id })
+        .toPromise();
+      this.charges = this.getCharges(refreshCoinbaseCharges);
+      this.notificationService.success('Refreshed Coinbase charges');
+    } catch (e) {
+      this.notificationService.error(e.message);
+      console.error(e);
+    }
+    this.refreshing = false;
+    this.changeDetector.markForCheck();
+  }
+
+  /**
+   * Record a refund that was done manually via Coinbase
+   */
+  async refund(charge: CoinbaseCharge): Promise<void> {
+    if (!this.order) {
+      return;
+    }
+    const input = await this.modalService
+      .fromComponent(CoinbaseRefundDialogComponent, {
+        size: 'lg',
+        closable: true,
+        locals: {
+          order: this.order,
+          paymentId: charge.paymentId,
+          network: charge.receivedPayments[0]?.network ?? '',
+        },
+      })
+      .toPromise();
+    if (!input) {
+      return;
+    }
+    try {
+      const { refundCoinbasePayment } = await this.dataService
+        .mutate<any>(REFUND_COINBASE_PAYMENT, { input })
+        .toPromise();
+      if (refundCoinbasePayment.errorCode) {
+        throw Error(refundCoinbasePayment.message);
+      }
+      // Reload the order detail page with the new refund
+      await this.dataService.order.getOrder(this.order.id).single$.toPromise();
+      this.notificationService.success('Recorded Coinbase refund');
+    } catch (e) {
+      this.notificationService.error(e.message);
+    }
+  }
+
+  /**
+   * Only payments with a charge code and timeline in their metadata are Coinbase payments
+   */
+  private getCharges(payments: any[]): CoinbaseCharge[] {
+    return payments
+      .filter((payment) => payment.metadata?.code && payment.metadata?.timeline)
+      .map((payment) => ({
+        paymentId: payment.id,
+        paymentState: payment.state,
+        code: payment.metadata.code,
+        status: payment.metadata.status,
+        context: payment.metadata.context,
+        timeline: payment.metadata.timeline ?? [],
+        addresses: Object.entries(payment.metadata.addresses ?? {}).map(
+          ([network, address]) => ({ network, address: String(address) })
+        ),
+        receivedPayments: payment.metadata.receivedPayments ?? [],
+      }));
+  }
+}
@@ -0,0 +1,19 @@
+import { NgModule } from '@angular/core';
+import {
+  registerCustomDetailComponent,
+  SharedModule,
+} from '@vendure/admin-ui/core';
+import { CoinbaseChargeComponent } from './coinbase-charge.component';
+import { CoinbaseRefundDialogComponent } from './coinbase-refund-dialog.component';
+
+@NgModule({
+  imports: [SharedModule],
+  declarations: [CoinbaseChargeComponent, CoinbaseRefundDialogComponent],
+  providers: [
+    registerCustomDetailComponent({
+      locationId: 'order-detail',
+      component: CoinbaseChargeComponent,
+    }),
+  ],
+})
+export class CoinbaseChargeModule {}
@@ -0,0 +1,173 @@
+import { Component, OnInit } from '@angular/core';
+import { Dialog } from '@vendure/admin-ui/core';
+import {
+  OrderDetailFragment,
+  RefundOrderInput,
+} from '@vendure/admin-ui/core/common/generated-types';
+
+/**
+ * Input of the refundCoinbasePayment mutation
+ */
+export interface CoinbaseRefundInput extends RefundOrderInput {
+  transactionHash: string;
+  network: string;
+}
+
+/**
+ * Records a refund that was done manually via Coinbase, together with its transaction hash and network
+ */
+@Component({
+  selector: 'coinbase-refund-dialog',
+  template: `
+    <ng-template vdrDialogTitle>Record Coinbase refund</ng-template>
+    <p>
+      Coinbase doesn't support refunds via its API. Refund the customer via
+      Coinbase first, and then record the refund here.
+    </p>
+    <table class="table">
+      <thead>
+        <tr>
+          <th class="left">Product</th>
+          <th class="left">Unit price</th>
+          <th class="left">Quantity to refund</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr *ngFor="let line of order.lines">
+          <td class="left align-middle">
+            {{ line.productVariant.name }}<br />
+            <small>{{ line.productVariant.sku }}</small>
+          </td>
+          <td class="left align-middle">
+            {{
+              line.proratedUnitPriceWithTax | localeCurrency: order.currencyCode
+            }}
+          </td>
+          <td class="left align-middle">
+            <input
+              type="number"
+              min="0"
+              [max]="line.quantity"
+              [(ngModel)]="quantities[line.id]"
+            />
+            / {{ line.quantity }}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+    <clr-checkbox-wrapper>
+      <input type="checkbox" clrCheckbox [(ngModel)]="includeShipping" />
+      <label>
+        Refund shipping ({{
+          order.shippingWithTax | localeCurrency: order.currencyCode
+        }})
+      </label>
+    </clr-checkbox-wrapper>
+    <vdr-form-field label="Adjustment" for="adjustment">
+      <vdr-currency-input
+        id="adjustment"
+        [(ngModel)]="adjustment"
+        [currencyCode]="order.currencyCode"
+      ></vdr-currency-input>
+    </vdr-form-field>
+    <vdr-form-field label="Transaction hash" for="transactionHash">
+      <input id="transactionHash" type="text" [(ngModel)]="transactionHash" />
+    </vdr-form-field>
+    <vdr-form-field label="Network" for="network">
+      <input id="network" type="text" [(ngModel)]="network" />
+    </vdr-form-field>
+    <vdr-form-field label="Reason" for="reason">
+      <input id="reason" type="text" [(ngModel)]="reason" />
+    </vdr-form-field>
+    <p>
+      <strong>Refund total:</strong>
+      {{ getRefundTotal() | localeCurrency: order.currencyCode }}
+    </p>
+    <ng-template vdrDialogButtons>
+      <button type="button" class="btn" (click)="resolveWith()">Close</button>
+      <button
+        type="button"
+        class="btn btn-primary"
+        (click)="submit()"
+        [disabled]="!isValid()"
+      >
+        Record refund
+      </button>
+    </ng-template>
+  `,
+})
+export class CoinbaseRefundDialogComponent
+  implements OnInit, Dialog<CoinbaseRefundInput>
+{
+  order: OrderDetailFragment;
+  paymentId: string;
+  network = '';
+  resolveWith: (result?: CoinbaseRefundInput) => void;
+  quantities: Record<string, number> = {};
+  includeShipping = false;
+  adjustment = 0;
+  transactionHash = '';
+  reason = '';
+
+  ngOnInit(): void {
+    this.order.lines.forEach((line) => (this.quantities[line.id] = 0));
+  }
+
+  getRefundTotal(): number {
+    const itemTotal = this.order.lines.reduce(
+      (total, line) =>
+        total + line.proratedUnitPriceWithTax * this.getQuantity(line.id),
+      0
+    );
+    return (
+      itemTotal +
+      (this.includeShipping ? this.order.shippingWithTax : 0) +
+      this.adjustment
+    );
+  }
+
+  /**
+   * Vendure requires a refund to contain order lines or shipping
+   */
+  isValid(): boolean {
+    const quantitiesValid = this.order.lines.every((line) => {
+      const quantity = this.getQuantity(line.id);
+      return (
+        Number.isInteger(quantity) && quantity >= 0 && quantity <= line.quantity
+      );
+    });
+    const hasLines = this.order.lines.some(
+      (line) => this.getQuantity(line.id) > 0
+    );
+    return (
+      quantitiesValid &&
+      (hasLines || this.includeShipping) &&
+      !!this.transactionHash.trim() &&
+      !!this.network.trim()
+    );
+  }
+
+  submit(): void {
+    if (!this.isValid()) {
+      return;
+    }
+    this.resolveWith({
+      paymentId: this.paymentId,
+      lines: this.order.lines
+        .filter((line) => this.getQuantity(line.id) > 0)
+        .map((line) => ({
+          orderLineId: String(line.id),
+          quantity: this.getQuantity(line.id),
+        })),
+      shipping: this.includeShipping ? this.order.shippingWithTax : 0,
+      adjustment: this.adjustment,
+      reason: this.reason || undefined,
+      transactionHash: this.transactionHash.trim(),
+      network: this.network.trim(),
+    });
+  }
+
+  private getQuantity(lineId: string): number {
+    return Number(this.quantities[lineId] ?? 0);
+  }
+}
@@ -0,0 +1,28 @@
+import gql from 'graphql-tag';
+
+export const REFRESH_COINBASE_CHARGES = gql`
+  mutation refreshCoinbaseCharges($orderId: ID!) {
+    refreshCoinbaseCharges(orderId: $orderId) {
+      id
+      state
+      method
+      metadata
+    }
+  }
+`;
+
+export const REFUND_COINBASE_PAYMENT = gql`
+  mutation refundCoinbasePayment($input: CoinbaseRefundInput!) {
+    refundCoinbasePayment(input: $input) {
+      ... on Refund {
+        id
+        state
+        total
+      }
+      ... on ErrorResult {
+        errorCode
+        message
+      }
+    }
+  }
+`;
@@ -1,4 +1,10 @@
-import { DefaultLogger, LogLevel, mergeConfig, Order } from '@vendure/core';
+import {
+  DefaultLogger,
+  LogLevel,
+  mergeConfig,
+  Order,
+  TransactionalConnection,
+} from '@vendure/core';
 import {
   createTestEnvironment,
   E2E_DEFAULT_CHANNEL_TOKEN,
@@ -13,19 +19,42 @@ import { initialData } from '../../test/src/initial-data';
 import { CoinbasePlugin } from '../src/coinbase.plugin';
 import { coinbaseHandler } from '../src/coinbase.handler';
 import { CreatePaymentMethod } from '../../test/src/generated/admin-graphql';
+import { TransitionToState } from '../../test/src/generated/shop-graphql';
 import { addItem, setAddressAndShipping } from '../../test/src/shop-utils';
 import nock from 'nock';
 import axios, { AxiosInstance } from 'axios';
 import { ChargeInput, ChargeResult } from '../src/coinbase.types';
 import { getOrder } from '../../test/src/admin-utils';
-import { CreatePaymentIntentMutation } from './queries';
+import {
+  CreatePaymentIntentMutation,
+  GetOrderHistoryQuery,
+  GetOrderPaymentsQuery,
+  GetPaymentStatusQuery,
+  GetWebhookEventsQuery,
+  ReconcileChargesMutation,
+  RefreshChargesMutation,
+  RefundCoinbasePaymentMutation,
+  RefundOrderMutation,
+  SetCustomerForOrderMutation,
+} from './queries';
+import crypto from 'crypto';
+import { CoinbaseClient } from '../src/coinbase.client';
+import { CoinbaseWebhookEventEntity } from '../src/coinbase-webhook-event.entity';
 
 const mockData = {
   redirectUrl: 'https://my-storefront/order',
   apiKey: 'myApiKey',
   methodCode: `coinbase-payment-${E2E_DEFAULT_CHANNEL_TOKEN}`,
+  webhookSecret: 'myWebhookSecret',
 };
 
+function sign(body: unknown): string {
+  return crypto
+    .createHmac('sha256', mockData.webhookSecret)
+    .update(JSON.stringify(body))
+    .digest('hex');
+}
+
 describe('Coinbase payments', () => {
   let shopClient: SimpleGraphQLClient;
   let adminClient: SimpleGraphQLClient;
@@ -81,6 +110,7 @@ describe('Coinbase payments', () => {
             arguments: [
               { name: 'redirectUrl', value: mockData.redirectUrl },
               { name: 'apiKey', value: mockData.apiKey },
+              { name: 'webhookSecret', value: mockData.webhookSecret },
             ],
           },
         },
@@ -89,12 +119,22 @@ describe('Coinbase payments', () => {
     expect(createPaymentMethod.code).toBe(mockData.methodCode);
   });
 
-  it('Should fail payment intent without shipping', async () => {
-    expect.assertions(1);
+  it('Should return NoActiveOrderError without active order', async () => {
+    const { createCoinbasePaymentIntent } = await shopClient.query(
+      CreatePaymentIntentMutation
+    );
+    expect(createCoinbasePaymentIntent.errorCode).toBe('NO_ACTIVE_ORDER_ERROR');
+  });
+
+  it('Should return IncompleteOrderError without shipping', async () => {
     order = await addItem(shopClient, 'T_2', 2);
-    await shopClient.query(CreatePaymentIntentMutation).catch((error) => {
-      expect(error).toBeDefined();
-    });
+    const { createCoinbasePaymentIntent } = await shopClient.query(
+      CreatePaymentIntentMutation
+    );
+    expect(createCoinbasePaymentIntent.errorCode).toBe(
+      'INCOMPLETE_ORDER_ERROR'
+    );
+    expect(createCoinbasePaymentIntent.message).toContain('shippingMethod');
   });
 
   it('Should create payment intent', async () => {
@@ -105,15 +145,19 @@ describe('Coinbase payments', () => {
         return true;
       })
       .reply(200, {
-        data: { hosted_url: 'https://mock-hosted-checkout/charges' },
+        data: {
+          code: 'coinbase-mock-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
       });
     await setAddressAndShipping(shopClient, 'T_1');
     const { createCoinbasePaymentIntent } = await shopClient.query(
       CreatePaymentIntentMutation
     );
-    expect(createCoinbasePaymentIntent).toBe(
+    expect(createCoinbasePaymentIntent.url).toBe(
       'https://mock-hosted-checkout/charges'
     );
+    expect(createCoinbasePaymentIntent.chargeCode).toBe('coinbase-mock-id');
     const adminOrder = await getOrder(adminClient, order.id as string);
     expect(payload!.metadata.channelToken).toBe(E2E_DEFAULT_CHANNEL_TOKEN);
     expect(payload!.metadata.orderCode).toBe(adminOrder!.code);
@@ -122,6 +166,107 @@ describe('Coinbase payments', () => {
     );
   });
 
+  it('Should reuse existing charge for the same order total', async () => {
+    let createdNewCharge = false;
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          expires_at: new Date(Date.now() + 60 * 60 * 1000),
+          timeline: [{ time: new Date(), status: 'NEW' }],
+        },
+      } as Partial<ChargeResult>);
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges', () => {
+        createdNewCharge = true;
+        return true;
+      })
+      .reply(200, {
+        data: { hosted_url: 'https://mock-hosted-checkout/new-charge' },
+      });
+    const { createCoinbasePaymentIntent } = await shopClient.query(
+      CreatePaymentIntentMutation
+    );
+    expect(createCoinbasePaymentIntent.url).toBe(
+      'https://mock-hosted-checkout/charges'
+    );
+    expect(createdNewCharge).toBe(false);
+    nock.cleanAll();
+  });
+
+  it('Should create a new charge when the order total changed', async () => {
+    let payload: ChargeInput;
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges', (reqBody) => {
+        payload = reqBody;
+        return true;
+      })
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          hosted_url: 'https://mock-hosted-checkout/new-charge',
+        },
+      });
+    order = await addItem(shopClient, 'T_2', 1);
+    const { createCoinbasePaymentIntent } = await shopClient.query(
+      CreatePaymentIntentMutation
+    );
+    const adminOrder = await getOrder(adminClient, order.id as string);
+    expect(createCoinbasePaymentIntent.url).toBe(
+      'https://mock-hosted-checkout/new-charge'
+    );
+    expect(payload!.local_price.amount).toBe(
+      (adminOrder!.totalWithTax / 100).toFixed(2)
+    );
+  });
+
+  it('Should reject webhook with invalid signature', async () => {
+    const body = {
+      event: {
+        type: 'charge:confirmed',
+        data: {
+          code: 'coinbase-mock-id',
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+          },
+        },
+      },
+    };
+    const status = await httpClient
+      .post('/payments/coinbase', body, {
+        headers: { [CoinbaseClient.signatureHeader]: 'invalid-signature' },
+      })
+      .catch((error) => error.response?.status);
+    const adminOrder = await getOrder(adminClient, order.id as string);
+    expect(status).toBe(401);
+    expect(adminOrder?.state).toEqual('AddingItems');
+  });
+
+  it('Should reject webhook with an unknown payment method', async () => {
+    const body = {
+      event: {
+        type: 'charge:confirmed',
+        data: {
+          code: 'coinbase-mock-id',
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+            paymentMethodCode: 'non-existing-method',
+          },
+        },
+      },
+    };
+    const status = await httpClient
+      .post('/payments/coinbase', body, {
+        headers: { [CoinbaseClient.signatureHeader]: sign(body) },
+      })
+      .catch((error) => error.response?.status);
+    expect(status).toBe(401);
+  });
+
   it('Should fail for malicious webhook', async () => {
     // Incoming webhook seems valid, but when retrieving the actual Charge by code from CB we see it is not confirmed
     nock('https://api.commerce.coinbase.com/')
@@ -131,7 +276,7 @@ describe('Coinbase payments', () => {
           hosted_url: 'https://mock-hosted-checkout/charges',
         },
       } as Partial<ChargeResult>);
-    await httpClient.post('/payments/coinbase', {
+    const body = {
       event: {
         type: 'charge:confirmed',
         data: {
@@ -142,11 +287,71 @@ describe('Coinbase payments', () => {
           },
         },
       },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
     });
     const adminOrder = await getOrder(adminClient, order.id as string);
     expect(adminOrder?.state).toEqual('AddingItems');
   });
 
+  it('Should ignore charge:created events', async () => {
+    const body = {
+      event: {
+        type: 'charge:created',
+        data: {
+          code: 'coinbase-mock-id',
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+          },
+        },
+      },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
+    });
+    const adminOrder = await getOrder(adminClient, order.id as string);
+    expect(adminOrder?.state).toEqual('AddingItems');
+  });
+
+  it('Should authorize payment for pending charge', async () => {
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'PENDING' },
+          ],
+        },
+      } as Partial<ChargeResult>);
+    const body = {
+      event: {
+        type: 'charge:pending',
+        data: {
+          code: 'coinbase-mock-id',
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+          },
+        },
+      },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
+    });
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    expect(adminOrder.state).toEqual('PaymentAuthorized');
+    expect(adminOrder.payments.length).toBe(1);
+    expect(adminOrder.payments[0].state).toBe('Authorized');
+    expect(adminOrder.payments[0].metadata.status).toBe('PENDING');
+  });
+
   it('Should settle order for valid webhook', async () => {
     nock('https://api.commerce.coinbase.com/')
       .get('/charges/coinbase-mock-id')
@@ -156,7 +361,7 @@ describe('Coinbase payments', () => {
           hosted_url: 'https://mock-hosted-checkout/charges',
         },
       } as Partial<ChargeResult>);
-    await httpClient.post('/payments/coinbase', {
+    const body = {
       event: {
         type: 'charge:confirmed',
         data: {
@@ -167,8 +372,609 @@ describe('Coinbase payments', () => {
           },
         },
       },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
+    });
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    expect(adminOrder.state).toEqual('PaymentSettled');
+    expect(adminOrder.payments.length).toBe(1);
+    expect(adminOrder.payments[0].state).toBe('Settled');
+    expect(adminOrder.payments[0].metadata.status).toBe('COMPLETED');
+  });
+
+  it('Should refresh charge details of a payment', async () => {
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          addresses: { bitcoin: 'mock-btc-address' },
+          payments: [
+            {
+              network: 'bitcoin',
+              transaction_id: 'tx-refreshed',
+              status: 'CONFIRMED',
+              value: {
+                local: { amount: '45.00', currency: 'USD' },
+                crypto: { amount: '0.00200000', currency: 'BTC' },
+              },
+            },
+          ],
+          timeline: [
+            { time: '2022-01-01T00:00:00Z', status: 'NEW' },
+            { time: '2022-01-01T00:05:00Z', status: 'COMPLETED' },
+          ],
+        },
+      });
+    const { refreshCoinbaseCharges } = await adminClient.query(
+      RefreshChargesMutation,
+      { orderId: order.id }
+    );
+    expect(refreshCoinbaseCharges.length).toBe(1);
+    expect(refreshCoinbaseCharges[0].state).toBe('Settled');
+    expect(refreshCoinbaseCharges[0].metadata.timeline.length).toBe(2);
+    expect(refreshCoinbaseCharges[0].metadata.addresses.bitcoin).toBe(
+      'mock-btc-address'
+    );
+    expect(
+      refreshCoinbaseCharges[0].metadata.receivedPayments[0].transactionId
+    ).toBe('tx-refreshed');
+  });
+
+  it('Should fail refunds without transaction', async () => {
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    const { refundOrder } = await adminClient.query(RefundOrderMutation, {
+      input: {
+        lines: [],
+        shipping: 100,
+        adjustment: 0,
+        paymentId: adminOrder.payments[0].id,
+      },
+    });
+    expect(refundOrder.state).toBe('Failed');
+  });
+
+  it('Should record manual refund as settled', async () => {
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    const { refundCoinbasePayment } = await adminClient.query(
+      RefundCoinbasePaymentMutation,
+      {
+        input: {
+          lines: [],
+          shipping: 100,
+          adjustment: 0,
+          paymentId: adminOrder.payments[0].id,
+          reason: 'Customer changed their mind',
+          transactionHash: '0xmockhash',
+          network: 'ethereum',
+        },
+      }
+    );
+    expect(refundCoinbasePayment.state).toBe('Settled');
+    expect(refundCoinbasePayment.transactionId).toBe('0xmockhash');
+    expect(refundCoinbasePayment.metadata.transactionHash).toBe('0xmockhash');
+    expect(refundCoinbasePayment.metadata.network).toBe('ethereum');
+  });
+
+  it('Should not process the same webhook event twice', async () => {
+    // Only a single charge request is mocked, so processing the event again would fail
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          timeline: [{ time: '2022-01-01T00:05:00Z', status: 'COMPLETED' }],
+        },
+      });
+    await postWebhook('charge:confirmed', 'coinbase-mock-id', 'event-1');
+    await postWebhook('charge:confirmed', 'coinbase-mock-id', 'event-1');
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    expect(adminOrder.payments.length).toBe(1);
+  });
+
+  it('Should process concurrent deliveries of the same webhook event once', async () => {
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          timeline: [{ time: '2022-01-01T00:05:00Z', status: 'COMPLETED' }],
+        },
+      });
+    await Promise.all([
+      postWebhook('charge:confirmed', 'coinbase-mock-id', 'event-2'),
+      postWebhook('charge:confirmed', 'coinbase-mock-id', 'event-2'),
+    ]);
+    const { coinbaseWebhookEvents } = await adminClient.query(
+      GetWebhookEventsQuery
+    );
+    const events = coinbaseWebhookEvents.filter(
+      (event: any) => event.eventId === 'event-2'
+    );
+    expect(events.length).toBe(1);
+    expect(events[0].result).toBe('Settled');
+  });
+
+  it('Should process an event again when its processing was interrupted', async () => {
+    const repository = server.app
+      .get(TransactionalConnection)
+      .getRepository(CoinbaseWebhookEventEntity);
+    const interrupted = await repository.save(
+      new CoinbaseWebhookEventEntity({
+        eventId: 'event-3',
+        eventType: 'charge:confirmed',
+        result: 'Processing',
+      })
+    );
+    await repository.update(interrupted.id, {
+      updatedAt: new Date(Date.now() - 10 * 60 * 1000),
+    });
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-mock-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-mock-id',
+          timeline: [{ time: '2022-01-01T00:05:00Z', status: 'COMPLETED' }],
+        },
+      });
+    await postWebhook('charge:confirmed', 'coinbase-mock-id', 'event-3');
+    const event = await repository.findOne({ eventId: 'event-3' });
+    expect(event?.result).toBe('Settled');
+  });
+
+  it('Should list processed webhook events', async () => {
+    const { coinbaseWebhookEvents } = await adminClient.query(
+      GetWebhookEventsQuery
+    );
+    const events = coinbaseWebhookEvents.filter(
+      (event: any) => event.eventId === 'event-1'
+    );
+    expect(events.length).toBe(1);
+    expect(events[0].eventType).toBe('charge:confirmed');
+    expect(events[0].orderCode).toBe(order.code);
+    expect(events[0].result).toBe('Settled');
+    expect(
+      coinbaseWebhookEvents.find(
+        (event: any) => event.eventType === 'charge:created'
+      )?.result
+    ).toBe('Ignored');
+  });
+
+  it('Should keep an order in AddingItems for an expired charge', async () => {
+    order = await addItem(shopClient, 'T_2', 1);
+    await setAddressAndShipping(shopClient, 'T_1');
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-expired-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'EXPIRED' },
+          ],
+        },
+      } as Partial<ChargeResult>);
+    const body = {
+      event: {
+        type: 'charge:failed',
+        data: {
+          code: 'coinbase-expired-id',
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+          },
+        },
+      },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
     });
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    expect(adminOrder.state).toEqual('AddingItems');
+    expect(adminOrder.payments.length).toBe(0);
+    const {
+      order: { history },
+    } = await adminClient.query(GetOrderHistoryQuery, { id: order.id });
+    expect(
+      history.items.some(
+        (entry: any) =>
+          entry.type === 'ORDER_NOTE' &&
+          entry.data.note.includes('coinbase-expired-id is EXPIRED')
+      )
+    ).toBe(true);
+  });
+
+  it('Should add partial payment for underpaid charge', async () => {
+    const { order: currentOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-underpaid-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'PENDING' },
+            { time: new Date(), status: 'UNRESOLVED', context: 'UNDERPAID' },
+          ],
+          payments: [
+            {
+              status: 'CONFIRMED',
+              value: {
+                local: {
+                  amount: (currentOrder.totalWithTax / 100 - 1).toFixed(2),
+                  currency: currentOrder.currencyCode,
+                },
+              },
+            },
+          ],
+        },
+      } as unknown as Partial<ChargeResult>);
+    await postWebhook('charge:failed', 'coinbase-underpaid-id');
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    const payment = adminOrder.payments.find(
+      (p: any) => p.metadata.code === 'coinbase-underpaid-id'
+    );
+    expect(adminOrder.state).toEqual('ArrangingPayment');
+    expect(payment.state).toBe('Settled');
+    expect(payment.amount).toBe(currentOrder.totalWithTax - 100);
+    expect(payment.metadata.underpaidAmount).toBe(100);
+  });
+
+  it('Should create a charge for the outstanding amount after an underpayment', async () => {
+    let payload: ChargeInput;
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges', (reqBody) => {
+        payload = reqBody;
+        return true;
+      })
+      .reply(200, {
+        data: {
+          code: 'coinbase-remaining-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
+      });
+    await shopClient.query(CreatePaymentIntentMutation);
+    expect(payload!.local_price.amount).toBe('1.00');
+  });
+
+  it('Should settle and flag overpaid charge', async () => {
+    const { order: currentOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-overpaid-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'PENDING' },
+            { time: new Date(), status: 'UNRESOLVED', context: 'OVERPAID' },
+          ],
+          payments: [
+            {
+              status: 'CONFIRMED',
+              value: {
+                local: {
+                  amount: '1.50',
+                  currency: currentOrder.currencyCode,
+                },
+              },
+            },
+          ],
+        },
+      } as unknown as Partial<ChargeResult>);
+    await postWebhook('charge:failed', 'coinbase-overpaid-id');
+    const { order: adminOrder } = await adminClient.query(
+      GetOrderPaymentsQuery,
+      { id: order.id }
+    );
+    const payment = adminOrder.payments.find(
+      (p: any) => p.metadata.code === 'coinbase-overpaid-id'
+    );
+    expect(adminOrder.state).toEqual('PaymentSettled');
+    expect(payment.state).toBe('Settled');
+    expect(payment.amount).toBe(100);
+    expect(payment.metadata.overpaidAmount).toBe(50);
+  });
+
+  it('Should settle outstanding charges via reconciliation', async () => {
+    order = await addItem(shopClient, 'T_2', 1);
+    await setAddressAndShipping(shopClient, 'T_1');
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges')
+      .reply(200, {
+        data: {
+          code: 'coinbase-reconcile-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
+      });
+    await shopClient.query(CreatePaymentIntentMutation);
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-reconcile-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'PENDING' },
+            { time: new Date(), status: 'COMPLETED' },
+          ],
+        },
+      } as Partial<ChargeResult>);
+    const { reconcileCoinbaseCharges } = await adminClient.query(
+      ReconcileChargesMutation
+    );
     const adminOrder = await getOrder(adminClient, order.id as string);
+    expect(reconcileCoinbaseCharges).toEqual({
+      settled: [order.code],
+      underpaid: [],
+      expired: [],
+      pending: [],
+      failed: [],
+    });
     expect(adminOrder?.state).toEqual('PaymentSettled');
   });
+
+  it('Should report an underpaid charge once via reconciliation', async () => {
+    order = await addItem(shopClient, 'T_2', 1);
+    await setAddressAndShipping(shopClient, 'T_1');
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges')
+      .reply(200, {
+        data: {
+          code: 'coinbase-reconcile-underpaid-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
+      });
+    await shopClient.query(CreatePaymentIntentMutation);
+    // Only a single charge request is mocked, so the second run would fail if it fetched the charge again
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-reconcile-underpaid-id')
+      .reply(200, {
+        data: {
+          hosted_url: 'https://mock-hosted-checkout/charges',
+          timeline: [
+            { time: new Date(), status: 'NEW' },
+            { time: new Date(), status: 'UNRESOLVED', context: 'UNDERPAID' },
+          ],
+          payments: [
+            {
+              status: 'CONFIRMED',
+              value: { local: { amount: '1.00', currency: 'USD' } },
+            },
+          ],
+        },
+      } as unknown as Partial<ChargeResult>);
+    const { reconcileCoinbaseCharges: first } = await adminClient.query(
+      ReconcileChargesMutation
+    );
+    const { reconcileCoinbaseCharges: second } = await adminClient.query(
+      ReconcileChargesMutation
+    );
+    expect(first.underpaid).toEqual([order.code]);
+    expect(first.settled).toEqual([]);
+    expect(second).toEqual({
+      settled: [],
+      underpaid: [],
+      expired: [],
+      pending: [],
+      failed: [],
+    });
+    // Let the customer continue with a new active order in the next tests
+    await shopClient.query(TransitionToState, { state: 'AddingItems' });
+  });
+
+  it('Should add a second Coinbase paymentMethod', async () => {
+    const { createPaymentMethod } = await adminClient.query(
+      CreatePaymentMethod,
+      {
+        input: {
+          code: 'coinbase-payment-second-account',
+          name: 'Coinbase payment second account',
+          description: 'This is a second Coinbase test payment method',
+          enabled: true,
+          handler: {
+            code: coinbaseHandler.code,
+            arguments: [
+              { name: 'redirectUrl', value: 'https://other-storefront/order' },
+              { name: 'apiKey', value: 'mySecondApiKey' },
+              { name: 'webhookSecret', value: 'mySecondWebhookSecret' },
+            ],
+          },
+        },
+      }
+    );
+    expect(createPaymentMethod.code).toBe('coinbase-payment-second-account');
+  });
+
+  it('Should create payment intent for the given payment method', async () => {
+    let payload: ChargeInput;
+    order = await addItem(shopClient, 'T_2', 1);
+    await setAddressAndShipping(shopClient, 'T_1');
+    nock('https://api.commerce.coinbase.com/')
+      .matchHeader('X-CC-Api-Key', 'mySecondApiKey')
+      .post('/charges', (reqBody) => {
+        payload = reqBody;
+        return true;
+      })
+      .reply(200, {
+        data: {
+          code: 'coinbase-second-account-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
+      });
+    await shopClient.query(CreatePaymentIntentMutation, {
+      paymentMethodCode: 'coinbase-payment-second-account',
+    });
+    expect(payload!.metadata.paymentMethodCode).toBe(
+      'coinbase-payment-second-account'
+    );
+    expect(payload!.redirect_url).toBe(
+      `https://other-storefront/order/${order.code}`
+    );
+  });
+
+  it('Should return PaymentMethodNotConfiguredError for unknown payment method', async () => {
+    const { createCoinbasePaymentIntent } = await shopClient.query(
+      CreatePaymentIntentMutation,
+      { paymentMethodCode: 'non-existing-method' }
+    );
+    expect(createCoinbasePaymentIntent.errorCode).toBe(
+      'PAYMENT_METHOD_NOT_CONFIGURED_ERROR'
+    );
+    expect(createCoinbasePaymentIntent.message).toContain(
+      'No eligible paymentMethod'
+    );
+  });
+
+  it('Should return charge status for the owner of the order', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    nock('https://api.commerce.coinbase.com/')
+      .matchHeader('X-CC-Api-Key', 'mySecondApiKey')
+      .get('/charges/coinbase-second-account-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-second-account-id',
+          expires_at: expiresAt,
+          pricing: {
+            local: { amount: '45.00', currency: 'USD' },
+            bitcoin: { amount: '0.00200000', currency: 'BTC' },
+          },
+          payments: [
+            {
+              network: 'bitcoin',
+              transaction_id: 'tx-1',
+              status: 'PENDING',
+              value: {
+                local: { amount: '45.00', currency: 'USD' },
+                crypto: { amount: '0.00200000', currency: 'BTC' },
+              },
+            },
+          ],
+          timeline: [
+            { time: '2022-01-01T00:00:00Z', status: 'NEW' },
+            { time: '2022-01-01T00:05:00Z', status: 'PENDING' },
+          ],
+        },
+      });
+    const { coinbasePaymentStatus } = await shopClient.query(
+      GetPaymentStatusQuery,
+      { orderCode: order.code }
+    );
+    expect(coinbasePaymentStatus.code).toBe('coinbase-second-account-id');
+    expect(coinbasePaymentStatus.status).toBe('PENDING');
+    expect(coinbasePaymentStatus.timeline.length).toBe(2);
+    expect(coinbasePaymentStatus.expectedAmounts).toEqual([
+      { network: 'bitcoin', amount: '0.00200000', currency: 'BTC' },
+    ]);
+    expect(coinbasePaymentStatus.receivedPayments[0].transactionId).toBe(
+      'tx-1'
+    );
+    expect(coinbasePaymentStatus.expiresAt).toBe(expiresAt.toISOString());
+  });
+
+  it('Should not return charge status for other customers', async () => {
+    await shopClient.asAnonymousUser();
+    await expect(
+      shopClient.query(GetPaymentStatusQuery, { orderCode: order.code })
+    ).rejects.toThrow('not currently authorized');
+    await shopClient.asUserWithCredentials(
+      'hayden.zieme12@hotmail.com',
+      'test'
+    );
+  });
+
+  it('Should return charge status for the active order of a guest', async () => {
+    await shopClient.asAnonymousUser();
+    const guestOrder = await addItem(shopClient, 'T_2', 1);
+    await shopClient.query(SetCustomerForOrderMutation, {
+      input: {
+        firstName: 'Guest',
+        lastName: 'Customer',
+        emailAddress: 'guest-coinbase@example.com',
+      },
+    });
+    await setAddressAndShipping(shopClient, 'T_1');
+    nock('https://api.commerce.coinbase.com/')
+      .post('/charges')
+      .reply(200, {
+        data: {
+          code: 'coinbase-guest-id',
+          hosted_url: 'https://mock-hosted-checkout/charges',
+        },
+      });
+    await shopClient.query(CreatePaymentIntentMutation, {
+      paymentMethodCode: 'coinbase-payment-second-account',
+    });
+    nock('https://api.commerce.coinbase.com/')
+      .get('/charges/coinbase-guest-id')
+      .reply(200, {
+        data: {
+          code: 'coinbase-guest-id',
+          timeline: [{ time: '2022-01-01T00:00:00Z', status: 'NEW' }],
+        },
+      });
+    const { coinbasePaymentStatus } = await shopClient.query(
+      GetPaymentStatusQuery,
+      { orderCode: guestOrder.code }
+    );
+    expect(coinbasePaymentStatus.code).toBe('coinbase-guest-id');
+    expect(coinbasePaymentStatus.status).toBe('NEW');
+    // A different guest session can't access the unplaced order
+    await shopClient.asAnonymousUser();
+    await expect(
+      shopClient.query(GetPaymentStatusQuery, { orderCode: guestOrder.code })
+    ).rejects.toThrow('not currently authorized');
+    await shopClient.asUserWithCredentials(
+      'hayden.zieme12@hotmail.com',
+      'test'
+    );
+  });
+
+  async function postWebhook(
+    type: string,
+    code: string,
+    id?: string
+  ): Promise<void> {
+    const body = {
+      event: {
+        id,
+        type,
+        data: {
+          code,
+          metadata: {
+            orderCode: order.code,
+            channelToken: E2E_DEFAULT_CHANNEL_TOKEN,
+          },
+        },
+      },
+    };
+    await httpClient.post('/payments/coinbase', body, {
+      headers: { [CoinbaseClient.signatureHeader]: sign(body) },
+    });
+  }
 });
@@ -59,6 +59,10 @@ require('dotenv').config();
         arguments: [
           { name: 'redirectUrl', value: 'https://minishop.studio/order' },
           { name: 'apiKey', value: process.env.COINBASE_APIKEY },
+          {
+            name: 'webhookSecret',
+            value: process.env.COINBASE_WEBHOOK_SECRET,
+          },
         ],
       },
     },
@@ -80,5 +84,5 @@ require('dotenv').config();
   const { createCoinbasePaymentIntent } = await shopClient.query(
     CreatePaymentIntentMutation
   );
-  console.log(`Pay with crypto on ${createCoinbasePaymentIntent}`);
+  console.log(`Pay with crypto on ${createCoinbasePaymentIntent.url}`);
 })();
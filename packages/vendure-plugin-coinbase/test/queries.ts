@@ -1,7 +1,161 @@
 import gql from 'graphql-tag';
 
 export const CreatePaymentIntentMutation = gql`
-  mutation createCoinbasePaymentIntent {
-    createCoinbasePaymentIntent
+  mutation createCoinbasePaymentIntent($paymentMethodCode: String) {
+    createCoinbasePaymentIntent(paymentMethodCode: $paymentMethodCode) {
+      ... on CoinbasePaymentIntent {
+        url
+        chargeCode
+      }
+      ... on ErrorResult {
+        errorCode
+        message
+      }
+    }
+  }
+`;
+
+export const GetOrderPaymentsQuery = gql`
+  query order($id: ID!) {
+    order(id: $id) {
+      id
+      state
+      totalWithTax
+      currencyCode
+      payments {
+        id
+        state
+        amount
+        method
+        metadata
+      }
+    }
+  }
+`;
+
+export const ReconcileChargesMutation = gql`
+  mutation reconcileCoinbaseCharges {
+    reconcileCoinbaseCharges {
+      settled
+      underpaid
+      expired
+      pending
+      failed
+    }
+  }
+`;
+
+export const GetPaymentStatusQuery = gql`
+  query coinbasePaymentStatus($orderCode: String!) {
+    coinbasePaymentStatus(orderCode: $orderCode) {
+      code
+      status
+      timeline {
+        time
+        status
+        context
+      }
+      expectedAmounts {
+        network
+        amount
+        currency
+      }
+      receivedPayments {
+        network
+        transactionId
+        status
+        amount
+        currency
+      }
+      expiresAt
+    }
+  }
+`;
+
+export const RefreshChargesMutation = gql`
+  mutation refreshCoinbaseCharges($orderId: ID!) {
+    refreshCoinbaseCharges(orderId: $orderId) {
+      id
+      state
+      metadata
+    }
+  }
+`;
+
+export const RefundOrderMutation = gql`
+  mutation refundOrder($input: RefundOrderInput!) {
+    refundOrder(input: $input) {
+      ... on Refund {
+        id
+        state
+        total
+        metadata
+      }
+      ... on ErrorResult {
+        errorCode
+        message
+      }
+    }
+  }
+`;
+
+export const RefundCoinbasePaymentMutation = gql`
+  mutation refundCoinbasePayment($input: CoinbaseRefundInput!) {
+    refundCoinbasePayment(input: $input) {
+      ... on Refund {
+        id
+        state
+        transactionId
+        metadata
+      }
+      ... on ErrorResult {
+        errorCode
+        message
+      }
+    }
+  }
+`;
+
+export const GetWebhookEventsQuery = gql`
+  query coinbaseWebhookEvents {
+    coinbaseWebhookEvents {
+      id
+      createdAt
+      eventId
+      eventType
+      orderCode
+      chargeCode
+      result
+      message
+    }
+  }
+`;
+
+export const SetCustomerForOrderMutation = gql`
+  mutation setCustomerForOrder($input: CreateCustomerInput!) {
+    setCustomerForOrder(input: $input) {
+      ... on Order {
+        id
+        code
+      }
+      ... on ErrorResult {
+        errorCode
+        message
+      }
+    }
+  }
+`;
+
+export const GetOrderHistoryQuery = gql`
+  query orderHistory($id: ID!) {
+    order(id: $id) {
+      id
+      history {
+        items {
+          type
+          data
+        }
+      }
+    }
   }
 `;
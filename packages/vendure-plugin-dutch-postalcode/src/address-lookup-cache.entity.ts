@@ -0,0 +1,35 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+import { DutchAddressLookupResult } from './types';
+
+/**
+ * Cached result of an address lookup. A cached result of null means that no address was found.
+ * Results are cached per channel, because each channel can use a different lookup
+ */
+@Entity()
+@Index(['channelId', 'countryCode', 'postalCode', 'houseNumber'], {
+  unique: true,
+})
+export class AddressLookupCacheEntity extends VendureEntity {
+  constructor(input?: DeepPartial<AddressLookupCacheEntity>) {
+    super(input);
+  }
+
+  @Column()
+  channelId!: string;
+
+  @Column()
+  countryCode!: string;
+
+  @Column()
+  postalCode!: string;
+
+  @Column()
+  houseNumber!: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  result?: DutchAddressLookupResult | null;
+
+  @Column()
+  expiresAt!: Date;
+}
@@ -0,0 +1,35 @@
+import { Injector, RequestContext } from '@vendure/core';
+import { DutchAddressLookupResult } from './types';
+
+export interface AddressLookupInput {
+  ctx: RequestContext;
+  injector: Injector;
+  postalCode: string;
+  houseNumber: string;
+  /**
+   * Uppercase ISO 3166-1 alpha-2 code, for example "NL"
+   */
+  countryCode: string;
+}
+
+export interface AddressLookupStrategy {
+  /**
+   * The country codes this strategy can look up addresses for, for example ["NL"]
+   */
+  readonly countryCodes: string[];
+
+  /**
+   * Find the address for the given postal code and house number.
+   * Return undefined if no address exists
+   */
+  lookup(
+    input: AddressLookupInput
+  ): Promise<DutchAddressLookupResult | undefined>;
+
+  /**
+   * Find the valid house number additions for the given postal code and house number, like ['', 'A', 'B'].
+   * An empty string means the house number exists without addition. Return an empty list if no address exists.
+   * Optional: strategies without this method don't support the dutchHouseNumberAdditions query
+   */
+  lookupHouseNumberAdditions?(input: AddressLookupInput): Promise<string[]>;
+}
@@ -0,0 +1,55 @@
+import { DeepPartial, ID, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * INCOMPLETE: the address has no postal code or house number.
+ * NOT_FOUND: no address exists for the postal code and house number.
+ * CORRECTION_SUGGESTED: the address exists, but street, city or postal code differ from the official spelling
+ */
+export type AddressValidationStatus =
+  | 'INCOMPLETE'
+  | 'NOT_FOUND'
+  | 'CORRECTION_SUGGESTED';
+
+export interface AddressFieldsSnapshot {
+  fullName?: string;
+  streetLine1: string;
+  streetLine2?: string;
+  postalCode?: string;
+  city?: string;
+}
+
+/**
+ * An invalid customer address, found by the address validation job
+ */
+@Entity()
+@Index(['channelId', 'addressId'], { unique: true })
+export class AddressValidationResultEntity extends VendureEntity {
+  constructor(input?: DeepPartial<AddressValidationResultEntity>) {
+    super(input);
+  }
+
+  @Column()
+  channelId!: string;
+
+  @Column({ type: 'varchar' })
+  addressId!: ID;
+
+  @Column({ type: 'varchar' })
+  customerId!: ID;
+
+  @Column({ type: 'varchar' })
+  status!: AddressValidationStatus;
+
+  /**
+   * The address at the time of validation
+   */
+  @Column({ type: 'simple-json' })
+  address!: AddressFieldsSnapshot;
+
+  @Column({ type: 'simple-json', nullable: true })
+  suggestion?: Pick<
+    AddressFieldsSnapshot,
+    'streetLine1' | 'postalCode' | 'city'
+  > | null;
+}
@@ -0,0 +1,259 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  Address,
+  CustomerService,
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  PaginatedList,
+  RequestContext,
+  SerializedRequestContext,
+  TransactionalConnection,
+  UserInputError,
+} from '@vendure/core';
+import {
+  AddressFieldsSnapshot,
+  AddressValidationResultEntity,
+  AddressValidationStatus,
+} from './address-validation-result.entity';
+import { loggerCtx } from './constants';
+import { getHouseNumber, PostalCodeService } from './postal-code.service';
+
+export interface AddressValidationSummary {
+  validated: number;
+  invalid: number;
+  /**
+   * Addresses that couldn't be validated, because the lookup failed
+   */
+  failed: number;
+}
+
+interface AddressValidationJobData {
+  ctx: SerializedRequestContext;
+}
+
+const batchSize = 100;
+
+@Injectable()
+export class AddressValidationService implements OnModuleInit {
+  private jobQueue!: JobQueue<AddressValidationJobData>;
+
+  constructor(
+    private readonly connection: TransactionalConnection,
+    private readonly jobQueueService: JobQueueService,
+    private readonly postalCodeService: PostalCodeService,
+    private readonly customerService: CustomerService
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.jobQueue = await this.jobQueueService.createQueue({
+      name: 'dutch-address-validation',
+      process: async ({ data }) => {
+        const ctx = RequestContext.deserialize(data.ctx);
+        const summary = await this.validateAddresses(ctx);
+        Logger.info(
+          `Validated customer addresses of channel ${
+            ctx.channel.token
+          }: ${JSON.stringify(summary)}`,
+          loggerCtx
+        );
+        return summary;
+      },
+    });
+  }
+
+  /**
+   * Add a job that validates all Dutch customer addresses of the current channel
+   */
+  async startValidation(
+    ctx: RequestContext
+  ): Promise<Job<AddressValidationJobData>> {
+    return this.jobQueue.add({ ctx: ctx.serialize() }, { retries: 0 });
+  }
+
+  /**
+   * Validate all Dutch customer addresses of the current channel. The invalid addresses replace the results of the previous validation
+   */
+  async validateAddresses(
+    ctx: RequestContext
+  ): Promise<AddressValidationSummary> {
+    const summary: AddressValidationSummary = {
+      validated: 0,
+      invalid: 0,
+      failed: 0,
+    };
+    const resultRepository = this.connection.getRepository(
+      ctx,
+      AddressValidationResultEntity
+    );
+    await resultRepository.delete({ channelId: String(ctx.channelId) });
+    let skip = 0;
+    let addresses: Address[];
+    do {
+      addresses = await this.connection
+        .getRepository(ctx, Address)
+        .createQueryBuilder('address')
+        .innerJoin('address.country', 'country')
+        .innerJoinAndSelect('address.customer', 'customer')
+        .innerJoin('customer.channels', 'channel')
+        .where('channel.id = :channelId', { channelId: ctx.channelId })
+        .andWhere('country.code = :countryCode', { countryCode: 'NL' })
+        .andWhere('customer.deletedAt IS NULL')
+        .orderBy('address.id', 'ASC')
+        .skip(skip)
+        .take(batchSize)
+        .getMany();
+      skip += batchSize;
+      for (const address of addresses) {
+        let result: Partial<AddressValidationResultEntity> | undefined;
+        try {
+          result = await this.validateAddress(ctx, address);
+        } catch (e: any) {
+          Logger.warn(
+            `Unable to validate address ${address.id}: ${e?.message}`,
+            loggerCtx
+          );
+          summary.failed++;
+          continue;
+        }
+        summary.validated++;
+        if (result) {
+          summary.invalid++;
+          await resultRepository.save(
+            new AddressValidationResultEntity({
+              ...result,
+              channelId: String(ctx.channelId),
+              addressId: address.id,
+              customerId: address.customer.id,
+              address: {
+                fullName: address.fullName,
+                streetLine1: address.streetLine1,
+                streetLine2: address.streetLine2,
+                postalCode: address.postalCode,
+                city: address.city,
+              },
+            })
+          );
+        }
+      }
+    } while (addresses.length === batchSize);
+    return summary;
+  }
+
+  async getInvalidAddresses(
+    ctx: RequestContext,
+    skip = 0,
+    take = 50
+  ): Promise<PaginatedList<AddressValidationResultEntity>> {
+    const [items, totalItems] = await this.connection
+      .getRepository(ctx, AddressValidationResultEntity)
+      .findAndCount({
+        where: { channelId: String(ctx.channelId) },
+        order: { id: 'ASC' },
+        skip,
+        take,
+      });
+    return { items, totalItems };
+  }
+
+  /**
+   * Update the customer address with the suggested correction, and remove it from the invalid addresses.
+   * Refuses the correction when the address was changed or removed after it was validated.
+   * Not called in a request transaction, so the stale result is removed even though the correction is refused
+   */
+  async applyCorrection(ctx: RequestContext, id: ID): Promise<Address> {
+    const repository = this.connection.getRepository(
+      ctx,
+      AddressValidationResultEntity
+    );
+    const result = await repository.findOne({
+      where: { id, channelId: String(ctx.channelId) },
+    });
+    if (!result?.suggestion) {
+      throw new UserInputError(`No suggested correction found with id ${id}`);
+    }
+    const current = await this.connection
+      .getRepository(ctx, Address)
+      .findOne(result.addressId);
+    if (!current || !isUnchanged(current, result.address)) {
+      await repository.delete(result.id);
+      throw new UserInputError(
+        `Address ${result.addressId} was changed after it was validated, validate the addresses again to get a new suggestion`
+      );
+    }
+    const suggestion = result.suggestion;
+    return this.connection.withTransaction(ctx, async (ctx) => {
+      const address = await this.customerService.updateAddress(ctx, {
+        id: result.addressId,
+        ...suggestion,
+      });
+      await this.connection
+        .getRepository(ctx, AddressValidationResultEntity)
+        .delete(result.id);
+      return address;
+    });
+  }
+
+  /**
+   * Returns the status and suggestion for an invalid address, or undefined when the address is valid.
+   * Throws when the lookup fails
+   */
+  private async validateAddress(
+    ctx: RequestContext,
+    address: Address
+  ): Promise<
+    | { status: AddressValidationStatus; suggestion?: AddressSuggestion }
+    | undefined
+  > {
+    if (!address.postalCode || !getHouseNumber(address)) {
+      return { status: 'INCOMPLETE' };
+    }
+    const corrected = await this.postalCodeService.correctAddress(ctx, {
+      streetLine1: address.streetLine1,
+      streetLine2: address.streetLine2,
+      postalCode: address.postalCode,
+      countryCode: 'NL',
+    });
+    if (!corrected) {
+      return { status: 'NOT_FOUND' };
+    }
+    const suggestion = {
+      streetLine1: corrected.streetLine1,
+      postalCode: corrected.postalCode,
+      city: corrected.city,
+    };
+    if (
+      suggestion.streetLine1 === address.streetLine1 &&
+      suggestion.postalCode === address.postalCode &&
+      suggestion.city === address.city
+    ) {
+      return undefined;
+    }
+    return { status: 'CORRECTION_SUGGESTED', suggestion };
+  }
+}
+
+/**
+ * Checks if the address still has the values of the snapshot that was taken during validation
+ */
+function isUnchanged(
+  address: Address,
+  snapshot: AddressFieldsSnapshot
+): boolean {
+  const fields: (keyof AddressFieldsSnapshot)[] = [
+    'fullName',
+    'streetLine1',
+    'streetLine2',
+    'postalCode',
+    'city',
+  ];
+  return fields.every(
+    (field) => (address[field] ?? '') === (snapshot[field] ?? '')
+  );
+}
+
+type AddressSuggestion = NonNullable<
+  AddressValidationResultEntity['suggestion']
+>;
@@ -0,0 +1,9 @@
+import { PermissionDefinition } from '@vendure/core';
+
+export const loggerCtx = 'DutchPostalCodePlugin';
+export const PLUGIN_INIT_OPTIONS = Symbol('DUTCH_POSTAL_CODE_PLUGIN_OPTIONS');
+
+export const dutchPostalCodePermission = new PermissionDefinition({
+  name: 'SetDutchPostalCodeConfig',
+  description: 'Allows setting Dutch postal code configuration',
+});
@@ -0,0 +1,84 @@
+import {
+  LanguageCode,
+  Logger,
+  ShippingEligibilityChecker,
+} from '@vendure/core';
+import { loggerCtx } from './constants';
+import { PostalCodeService } from './postal-code.service';
+
+/**
+ * Distance in kilometers between two coordinates, using the haversine formula
+ */
+export function getDistanceInKm(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number }
+): number {
+  const earthRadius = 6371;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return earthRadius * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+let postalCodeService: PostalCodeService;
+export const distanceChecker = new ShippingEligibilityChecker({
+  code: 'dutch-postal-code-distance',
+  description: [
+    {
+      languageCode: LanguageCode.en,
+      value: 'Check by distance between the shipping address and the store',
+    },
+  ],
+  args: {
+    storeLatitude: {
+      type: 'float',
+      label: [{ languageCode: LanguageCode.en, value: 'Store latitude' }],
+    },
+    storeLongitude: {
+      type: 'float',
+      label: [{ languageCode: LanguageCode.en, value: 'Store longitude' }],
+    },
+    maxDistance: {
+      type: 'float',
+      label: [{ languageCode: LanguageCode.en, value: 'Maximum distance' }],
+      description: [
+        {
+          languageCode: LanguageCode.en,
+          value: 'Maximum distance in kilometers, as the crow flies',
+        },
+      ],
+    },
+  },
+  init(injector) {
+    postalCodeService = injector.get(PostalCodeService);
+  },
+  async check(ctx, order, { storeLatitude, storeLongitude, maxDistance }) {
+    let address;
+    try {
+      address = await postalCodeService.lookupAddress(
+        ctx,
+        order.shippingAddress
+      );
+    } catch (e: any) {
+      // No lookup for this country, or the lookup is unavailable
+      Logger.warn(
+        `Unable to look up the shipping address of order ${order.code}: ${e?.message}`,
+        loggerCtx
+      );
+      return false;
+    }
+    if (address?.lat === undefined || address?.lon === undefined) {
+      return false;
+    }
+    const distance = getDistanceInKm(
+      { lat: storeLatitude, lon: storeLongitude },
+      { lat: address.lat, lon: address.lon }
+    );
+    return distance <= maxDistance;
+  },
+});
@@ -0,0 +1,238 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  TransactionalConnection,
+  UserInputError,
+} from '@vendure/core';
+import fs from 'fs';
+import readline from 'readline';
+import { In } from 'typeorm';
+import { loggerCtx, PLUGIN_INIT_OPTIONS } from './constants';
+import { DutchAddressEntity } from './dutch-address.entity';
+import { PostalCodeService } from './postal-code.service';
+import { DutchPostalCodePluginOptions } from './types';
+
+export interface AddressImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  /**
+   * Rows without postal code, house number, street or city
+   */
+  skipped: number;
+}
+
+interface AddressImportJobData {
+  csvPath: string;
+}
+
+/**
+ * Column names of the BAG address export, like the bagadres.csv of NLExtract
+ */
+const columns = {
+  street: 'openbareruimte',
+  houseNumber: 'huisnummer',
+  houseLetter: 'huisletter',
+  houseNumberAddition: 'huisnummertoevoeging',
+  postalCode: 'postcode',
+  city: 'woonplaats',
+  municipality: 'gemeente',
+  province: 'provincie',
+  lat: 'lat',
+  lon: 'lon',
+};
+const requiredColumns = [
+  columns.street,
+  columns.houseNumber,
+  columns.postalCode,
+  columns.city,
+];
+const batchSize = 500;
+
+@Injectable()
+export class DutchAddressImportService implements OnModuleInit {
+  private jobQueue!: JobQueue<AddressImportJobData>;
+
+  constructor(
+    private readonly connection: TransactionalConnection,
+    private readonly jobQueueService: JobQueueService,
+    private readonly postalCodeService: PostalCodeService,
+    @Inject(PLUGIN_INIT_OPTIONS)
+    private readonly options: DutchPostalCodePluginOptions
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.jobQueue = await this.jobQueueService.createQueue({
+      name: 'dutch-address-import',
+      process: async ({ data }) => {
+        const result = await this.importCsv(data.csvPath);
+        Logger.info(
+          `Imported addresses from ${data.csvPath}: ${JSON.stringify(result)}`,
+          loggerCtx
+        );
+        return result;
+      },
+    });
+  }
+
+  /**
+   * Add a job that imports the CSV file configured as `localDataset.csvPath`
+   */
+  async startImport(): Promise<Job<AddressImportJobData>> {
+    const csvPath = this.options.localDataset?.csvPath;
+    if (!csvPath) {
+      throw new UserInputError(
+        `No local dataset configured. Use DutchPostalCodePlugin.init({ localDataset: { csvPath } })`
+      );
+    }
+    return this.jobQueue.add({ csvPath }, { retries: 0 });
+  }
+
+  /**
+   * Import the addresses of a BAG CSV export into the local address table.
+   * Only new and changed addresses are written, so importing a newer export only updates what changed.
+   * Addresses that are not in the file are kept. The lookup cache is cleared afterwards, so lookups return the imported addresses
+   */
+  async importCsv(csvPath: string): Promise<AddressImportResult> {
+    const result: AddressImportResult = {
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+    };
+    const lines = readline.createInterface({
+      input: fs.createReadStream(csvPath),
+      crlfDelay: Infinity,
+    });
+    let header: string[] | undefined;
+    let delimiter = ';';
+    let batch: DutchAddressEntity[] = [];
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      if (!header) {
+        delimiter = line.includes(';') ? ';' : ',';
+        header = parseCsvLine(line, delimiter).map((c) => c.toLowerCase());
+        const missing = requiredColumns.filter((c) => !header!.includes(c));
+        if (missing.length) {
+          throw Error(`${csvPath} is missing columns ${missing.join(', ')}`);
+        }
+        continue;
+      }
+      const address = toAddress(header, parseCsvLine(line, delimiter));
+      if (!address) {
+        result.skipped++;
+        continue;
+      }
+      batch.push(address);
+      if (batch.length >= batchSize) {
+        await this.saveBatch(batch, result);
+        batch = [];
+      }
+    }
+    if (batch.length) {
+      await this.saveBatch(batch, result);
+    }
+    await this.postalCodeService.clearCache();
+    return result;
+  }
+
+  private async saveBatch(
+    addresses: DutchAddressEntity[],
+    result: AddressImportResult
+  ): Promise<void> {
+    const repository = this.connection.getRepository(DutchAddressEntity);
+    const postalCodes = [...new Set(addresses.map((a) => a.postalCode))];
+    const existing = await repository.find({
+      where: { postalCode: In(postalCodes) },
+    });
+    const existingByKey = new Map(existing.map((a) => [getKey(a), a]));
+    const toSave = new Set<DutchAddressEntity>();
+    for (const address of addresses) {
+      const current = existingByKey.get(getKey(address));
+      if (!current) {
+        existingByKey.set(getKey(address), address);
+        toSave.add(address);
+        result.created++;
+      } else if (hasChanged(current, address)) {
+        Object.assign(current, address, { id: current.id });
+        toSave.add(current);
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+    }
+    await repository.save([...toSave], { chunk: 100 });
+  }
+}
+
+function getKey(address: DutchAddressEntity): string {
+  return `${address.postalCode}-${address.houseNumber}-${address.addition}`;
+}
+
+function hasChanged(
+  current: DutchAddressEntity,
+  imported: DutchAddressEntity
+): boolean {
+  return (
+    ['street', 'city', 'municipality', 'province', 'lat', 'lon'] as const
+  ).some((field) => (current[field] ?? null) !== (imported[field] ?? null));
+}
+
+function toAddress(
+  header: string[],
+  row: string[]
+): DutchAddressEntity | undefined {
+  const value = (column: string) => row[header.indexOf(column)]?.trim() ?? '';
+  const postalCode = value(columns.postalCode).replace(/\s/g, '').toUpperCase();
+  const houseNumber = value(columns.houseNumber);
+  const street = value(columns.street);
+  const city = value(columns.city);
+  if (!postalCode || !houseNumber || !street || !city) {
+    return undefined;
+  }
+  const lat = parseFloat(value(columns.lat));
+  const lon = parseFloat(value(columns.lon));
+  return new DutchAddressEntity({
+    postalCode,
+    houseNumber,
+    addition: [value(columns.houseLetter), value(columns.houseNumberAddition)]
+      .filter(Boolean)
+      .join('-'),
+    street,
+    city,
+    municipality: value(columns.municipality) || null,
+    province: value(columns.province) || null,
+    lat: isNaN(lat) ? null : lat,
+    lon: isNaN(lon) ? null : lon,
+  });
+}
+
+/**
+ * Split a CSV line by the delimiter. Values can be quoted with double quotes
+ */
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      value += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      values.push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+  return values;
+}
@@ -0,0 +1,43 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * An address from the BAG dataset, imported with the DutchAddressImportService
+ */
+@Entity()
+@Index(['postalCode', 'houseNumber', 'addition'], { unique: true })
+export class DutchAddressEntity extends VendureEntity {
+  constructor(input?: DeepPartial<DutchAddressEntity>) {
+    super(input);
+  }
+
+  @Column()
+  postalCode!: string;
+
+  @Column()
+  houseNumber!: string;
+
+  /**
+   * House letter and house number addition, like 'A' or 'A-2'. Empty for addresses without addition
+   */
+  @Column({ default: '' })
+  addition!: string;
+
+  @Column()
+  street!: string;
+
+  @Column()
+  city!: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  municipality?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  province?: string | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  lat?: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  lon?: number | null;
+}
@@ -1,18 +1,90 @@
 import { PluginCommonModule, VendurePlugin } from '@vendure/core';
-import { PostalCodeResolver } from './postal-code.resolver';
+import { AdminUiExtension } from '@vendure/ui-devkit/compiler';
+import path from 'path';
+import {
+  DutchAddressLookupResponseResolver,
+  DutchHouseNumberAdditionsResponseResolver,
+  PostalCodeAdminResolver,
+  PostalCodeResolver,
+  ShippingAddressValidationResolver,
+} from './postal-code.resolver';
+import { AddressLookupCacheEntity } from './address-lookup-cache.entity';
+import { PostalCodeService } from './postal-code.service';
+import { DutchAddressImportService } from './dutch-address-import.service';
+import { DutchAddressEntity } from './dutch-address.entity';
+import { AddressValidationService } from './address-validation.service';
+import { AddressValidationResultEntity } from './address-validation-result.entity';
+import { dutchPostalCodePermission, PLUGIN_INIT_OPTIONS } from './constants';
+import { PostalCodeConfigEntity } from './postal-code-config.entity';
+import { DutchPostalCodePluginOptions } from './types';
+import { distanceChecker } from './distance-checker';
 
 @VendurePlugin({
   imports: [PluginCommonModule],
+  providers: [
+    PostalCodeService,
+    DutchAddressImportService,
+    AddressValidationService,
+    {
+      provide: PLUGIN_INIT_OPTIONS,
+      useFactory: () => DutchPostalCodePlugin.options,
+    },
+  ],
+  entities: [
+    AddressLookupCacheEntity,
+    DutchAddressEntity,
+    PostalCodeConfigEntity,
+    AddressValidationResultEntity,
+  ],
   shopApiExtensions: {
     schema: PostalCodeResolver.schema,
-    resolvers: [PostalCodeResolver],
+    resolvers: () => [
+      PostalCodeResolver,
+      DutchAddressLookupResponseResolver,
+      DutchHouseNumberAdditionsResponseResolver,
+      ...(DutchPostalCodePlugin.options.validateShippingAddress
+        ? [ShippingAddressValidationResolver]
+        : []),
+    ],
+  },
+  adminApiExtensions: {
+    schema: PostalCodeAdminResolver.schema,
+    resolvers: [PostalCodeAdminResolver],
+  },
+  configuration: (config) => {
+    config.shippingOptions.shippingEligibilityCheckers.push(distanceChecker);
+    config.authOptions.customPermissions.push(dutchPostalCodePermission);
+    return config;
   },
 })
 export class DutchPostalCodePlugin {
-  static apiKey: string;
+  static options: DutchPostalCodePluginOptions = {};
 
-  static init(apiKey: string): typeof DutchPostalCodePlugin {
-    this.apiKey = apiKey;
+  /**
+   * Pass your postcode.tech API key, or options with custom lookup strategies.
+   * Channels with a config set via the admin API use that config instead
+   */
+  static init(
+    options: string | DutchPostalCodePluginOptions
+  ): typeof DutchPostalCodePlugin {
+    this.options = typeof options === 'string' ? { apiKey: options } : options;
     return DutchPostalCodePlugin;
   }
+
+  static ui: AdminUiExtension = {
+    extensionPath: path.join(__dirname, 'ui'),
+    ngModules: [
+      {
+        type: 'lazy',
+        route: 'dutch-postal-code',
+        ngModuleFileName: 'dutch-postal-code.module.ts',
+        ngModuleName: 'DutchPostalCodeModule',
+      },
+      {
+        type: 'shared',
+        ngModuleFileName: 'dutch-postal-code-nav.module.ts',
+        ngModuleName: 'DutchPostalCodeNavModule',
+      },
+    ],
+  };
 }
@@ -0,0 +1,15 @@
+export * from './dutch-postal-code.plugin';
+export * from './address-lookup-strategy';
+export * from './address-lookup-cache.entity';
+export * from './postcode-tech-lookup-strategy';
+export * from './postal-code.service';
+export * from './types';
+export * from './postal-code.errors';
+export * from './distance-checker';
+export * from './dutch-address.entity';
+export * from './dutch-address-import.service';
+export * from './local-dataset-lookup-strategy';
+export { dutchPostalCodePermission } from './constants';
+export * from './postal-code-config.entity';
+export * from './address-validation.service';
+export * from './address-validation-result.entity';
@@ -0,0 +1,60 @@
+import { TransactionalConnection } from '@vendure/core';
+import {
+  AddressLookupInput,
+  AddressLookupStrategy,
+} from './address-lookup-strategy';
+import { DutchAddressEntity } from './dutch-address.entity';
+import { DutchAddressLookupResult } from './types';
+
+/**
+ * Looks up Dutch addresses in the local table with imported BAG addresses.
+ * The optional fallback strategy is used for addresses that are not in the local table
+ */
+export class LocalDatasetLookupStrategy implements AddressLookupStrategy {
+  readonly countryCodes = ['NL'];
+
+  constructor(private readonly fallback?: AddressLookupStrategy) {}
+
+  async lookup(
+    input: AddressLookupInput
+  ): Promise<DutchAddressLookupResult | undefined> {
+    const { ctx, injector, postalCode, houseNumber } = input;
+    // Addresses without addition come first
+    const address = await injector
+      .get(TransactionalConnection)
+      .getRepository(ctx, DutchAddressEntity)
+      .findOne({
+        where: { postalCode, houseNumber },
+        order: { addition: 'ASC' },
+      });
+    if (!address) {
+      return this.fallback?.lookup(input);
+    }
+    return {
+      postalCode: address.postalCode,
+      houseNumber: address.houseNumber,
+      street: address.street,
+      city: address.city,
+      municipality: address.municipality ?? undefined,
+      province: address.province ?? undefined,
+      lat: address.lat ?? undefined,
+      lon: address.lon ?? undefined,
+    };
+  }
+
+  async lookupHouseNumberAdditions({
+    ctx,
+    injector,
+    postalCode,
+    houseNumber,
+  }: AddressLookupInput): Promise<string[]> {
+    const addresses = await injector
+      .get(TransactionalConnection)
+      .getRepository(ctx, DutchAddressEntity)
+      .find({
+        where: { postalCode, houseNumber },
+        order: { addition: 'ASC' },
+      });
+    return addresses.map((address) => address.addition);
+  }
+}
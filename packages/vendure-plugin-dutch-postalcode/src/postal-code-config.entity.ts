@@ -0,0 +1,25 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity } from 'typeorm';
+import { PostalCodeProvider } from './types';
+
+/**
+ * Address lookup configuration of a channel
+ */
+@Entity()
+export class PostalCodeConfigEntity extends VendureEntity {
+  constructor(input?: DeepPartial<PostalCodeConfigEntity>) {
+    super(input);
+  }
+
+  @Column({ unique: true })
+  channelId!: string;
+
+  @Column({ default: true })
+  enabled!: boolean;
+
+  @Column({ type: 'varchar', default: 'POSTCODE_TECH' })
+  provider!: PostalCodeProvider;
+
+  @Column({ type: 'varchar', nullable: true })
+  apiKey?: string | null;
+}
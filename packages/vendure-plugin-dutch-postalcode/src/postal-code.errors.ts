@@ -0,0 +1,49 @@
+import { ErrorResult } from '@vendure/core';
+
+/**
+ * Returned when a session or IP address exceeded the configured number of lookups
+ */
+export class RateLimitedError implements ErrorResult {
+  readonly __typename = 'RateLimitedError';
+  readonly errorCode = 'RATE_LIMITED_ERROR';
+  readonly message = 'Too many address lookups, try again later';
+
+  constructor(public retryAfter: number) {}
+}
+
+/**
+ * Returned when no address exists for the given postal code and house number
+ */
+export class AddressNotFoundError implements ErrorResult {
+  readonly __typename = 'AddressNotFoundError';
+  readonly errorCode = 'ADDRESS_NOT_FOUND_ERROR';
+  readonly message = 'No address found for this postal code and house number';
+}
+
+/**
+ * Returned when a Dutch postal code doesn't match the format 1234AB
+ */
+export class InvalidPostalCodeFormatError implements ErrorResult {
+  readonly __typename = 'InvalidPostalCodeFormatError';
+  readonly errorCode = 'INVALID_POSTAL_CODE_FORMAT_ERROR';
+  readonly message = 'Invalid postal code, use the format 1234AB';
+}
+
+/**
+ * Returned when the lookup failed, or no lookup is available for the channel or country
+ */
+export class LookupUnavailableError implements ErrorResult {
+  readonly __typename = 'LookupUnavailableError';
+  readonly errorCode = 'LOOKUP_UNAVAILABLE_ERROR';
+  readonly message = 'Address lookup is unavailable, try again later';
+}
+
+/**
+ * Returned when the lookup of the channel or country can't look up house number additions, like postcode.tech
+ */
+export class HouseNumberAdditionsNotSupportedError implements ErrorResult {
+  readonly __typename = 'HouseNumberAdditionsNotSupportedError';
+  readonly errorCode = 'HOUSE_NUMBER_ADDITIONS_NOT_SUPPORTED_ERROR';
+  readonly message =
+    'House number additions are not supported by the address lookup';
+}
@@ -1,35 +1,64 @@
-import { Args, Query, Resolver } from '@nestjs/graphql';
+import { Args, Mutation, Query, ResolveField, Resolver } from '@nestjs/graphql';
 import {
+  ActiveOrderResult,
+  MutationSetOrderShippingAddressArgs,
+} from '@vendure/common/lib/generated-shop-types';
+import {
+  ActiveOrderService,
+  Address,
   Allow,
   Ctx,
+  ErrorResultUnion,
+  ID,
+  Job,
+  isGraphQlErrorResult,
+  NoActiveOrderError,
+  Order,
+  OrderService,
+  PaginatedList,
   Permission,
   RequestContext,
+  Transaction,
   UnauthorizedError,
+  UserInputError,
 } from '@vendure/core';
 import gql from 'graphql-tag';
-import { DutchPostalCodePlugin } from './dutch-postal-code.plugin';
-import fetch from 'node-fetch';
-
-interface DutchAddressLookupResult {
-  postalCode: string;
-  houseNumber: string;
-  street: string;
-  city: string;
-  municipality?: string;
-  province?: string;
-  lat?: number;
-  lon?: number;
-}
+import { PostalCodeService } from './postal-code.service';
+import { DutchAddressImportService } from './dutch-address-import.service';
+import { AddressValidationService } from './address-validation.service';
+import { AddressValidationResultEntity } from './address-validation-result.entity';
+import {
+  DutchAddressLookupInput,
+  DutchAddressLookupResponse,
+  DutchHouseNumberAdditionsResponse,
+  PostalCodeConfigInput,
+} from './types';
+import { dutchPostalCodePermission } from './constants';
+import { PostalCodeConfigEntity } from './postal-code-config.entity';
 
 @Resolver()
 export class PostalCodeResolver {
   static schema = gql`
     extend type Query {
-      dutchAddressLookup(input: DutchPostalCodeInput!): DutchAddressLookupResult
+      dutchAddressLookup(
+        input: DutchPostalCodeInput!
+      ): DutchAddressLookupResponse!
+      """
+      The valid house number additions for a postal code and house number, for example for apartments.
+      Only supported by the local dataset and custom lookups that implement it: postcode.tech doesn't provide additions,
+      so it returns a HouseNumberAdditionsNotSupportedError
+      """
+      dutchHouseNumberAdditions(
+        input: DutchPostalCodeInput!
+      ): DutchHouseNumberAdditionsResponse!
     }
     input DutchPostalCodeInput {
       postalCode: String!
       houseNumber: String!
+      """
+      Defaults to NL
+      """
+      countryCode: String
     }
     type DutchAddressLookupResult {
       postalCode: String!
@@ -41,49 +70,309 @@ export class PostalCodeResolver {
       lat: Float
       lon: Float
     }
+    type RateLimitedError implements ErrorResult {
+      errorCode: ErrorCode!
+      message: String!
+      """
+      Number of seconds until new lookups are allowed
+      """
+      retryAfter: Int!
+    }
+    type DutchHouseNumberAdditions {
+      postalCode: String!
+      houseNumber: String!
+      """
+      For example ["", "A", "B"]. An empty string means the house number is valid without addition
+      """
+      additions: [String!]!
+    }
+    type AddressNotFoundError implements ErrorResult {
+      errorCode: ErrorCode!
+      message: String!
+    }
+    type InvalidPostalCodeFormatError implements ErrorResult {
+      errorCode: ErrorCode!
+      message: String!
+    }
+    type LookupUnavailableError implements ErrorResult {
+      errorCode: ErrorCode!
+      message: String!
+    }
+    type HouseNumberAdditionsNotSupportedError implements ErrorResult {
+      errorCode: ErrorCode!
+      message: String!
+    }
+    union DutchAddressLookupResponse =
+        DutchAddressLookupResult
+      | RateLimitedError
+      | AddressNotFoundError
+      | InvalidPostalCodeFormatError
+      | LookupUnavailableError
+    union DutchHouseNumberAdditionsResponse =
+        DutchHouseNumberAdditions
+      | RateLimitedError
+      | AddressNotFoundError
+      | InvalidPostalCodeFormatError
+      | LookupUnavailableError
+      | HouseNumberAdditionsNotSupportedError
   `;
 
-  headers = {};
+  constructor(private readonly postalCodeService: PostalCodeService) {}
 
-  constructor() {
-    if (!DutchPostalCodePlugin.apiKey) {
-      throw Error(
-        `DutchPostalCodePlugin needs an apiKey. Use DutchPostalCodePlugin.init('yourkey') to set an apiKey`
-      );
+  @Query()
+  @Allow(Permission.Public)
+  async dutchAddressLookup(
+    @Ctx() ctx: RequestContext,
+    @Args('input') input: DutchAddressLookupInput
+  ): Promise<DutchAddressLookupResponse> {
+    this.checkSession(ctx);
+    const rateLimitError = this.postalCodeService.checkRateLimit(ctx);
+    if (rateLimitError) {
+      return rateLimitError;
     }
-    this.headers = {
-      Authorization: `Bearer ${DutchPostalCodePlugin.apiKey}`,
-    };
+    return this.postalCodeService.findAddress(ctx, input);
   }
 
   @Query()
   @Allow(Permission.Public)
-  async dutchAddressLookup(
+  async dutchHouseNumberAdditions(
     @Ctx() ctx: RequestContext,
-    @Args('input') input: { postalCode: string; houseNumber: string }
-  ): Promise<DutchAddressLookupResult | undefined> {
+    @Args('input') input: DutchAddressLookupInput
+  ): Promise<DutchHouseNumberAdditionsResponse> {
+    this.checkSession(ctx);
+    const rateLimitError = this.postalCodeService.checkRateLimit(ctx);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+    return this.postalCodeService.findHouseNumberAdditions(ctx, input);
+  }
+
+  /**
+   * A little sanity check if this call is from a storefront
+   */
+  private checkSession(ctx: RequestContext): void {
     if (!ctx.channelId || !ctx.session?.token) {
-      // A little sanity check if this call is from a storefront
       throw new UnauthorizedError();
     }
-    const { postalCode, houseNumber } = input;
-    const result = await fetch(
-      `https://postcode.tech/api/v1/postcode/full?postcode=${postalCode}&number=${houseNumber}`,
-      { headers: this.headers }
+  }
+}
+
+@Resolver('DutchAddressLookupResponse')
+export class DutchAddressLookupResponseResolver {
+  @ResolveField()
+  __resolveType(value: DutchAddressLookupResponse): string {
+    return isGraphQlErrorResult(value)
+      ? value.__typename
+      : 'DutchAddressLookupResult';
+  }
+}
+
+@Resolver('DutchHouseNumberAdditionsResponse')
+export class DutchHouseNumberAdditionsResponseResolver {
+  @ResolveField()
+  __resolveType(value: DutchHouseNumberAdditionsResponse): string {
+    return isGraphQlErrorResult(value)
+      ? value.__typename
+      : 'DutchHouseNumberAdditions';
+  }
+}
+
+/**
+ * Overrides the built-in setOrderShippingAddress mutation to validate and normalize Dutch addresses before they are saved
+ */
+@Resolver()
+export class ShippingAddressValidationResolver {
+  constructor(
+    private readonly postalCodeService: PostalCodeService,
+    private readonly activeOrderService: ActiveOrderService,
+    private readonly orderService: OrderService
+  ) {}
+
+  @Transaction()
+  @Mutation()
+  @Allow(Permission.UpdateOrder, Permission.Owner)
+  async setOrderShippingAddress(
+    @Ctx() ctx: RequestContext,
+    @Args() args: MutationSetOrderShippingAddressArgs
+  ): Promise<ErrorResultUnion<ActiveOrderResult, Order>> {
+    if (ctx.authorizedAsOwnerOnly) {
+      const sessionOrder = await this.activeOrderService.getOrderFromContext(
+        ctx
+      );
+      if (sessionOrder) {
+        // Dutch addresses are looked up, so they count towards the same rate limit as the lookup queries
+        if (args.input.countryCode.toUpperCase() === 'NL') {
+          const rateLimitError = this.postalCodeService.checkRateLimit(ctx);
+          if (rateLimitError) {
+            throw new UserInputError(
+              `${rateLimitError.message}, retry after ${rateLimitError.retryAfter} seconds`
+            );
+          }
+        }
+        const address = await this.postalCodeService.normalizeAddress(
+          ctx,
+          args.input
+        );
+        return this.orderService.setShippingAddress(
+          ctx,
+          sessionOrder.id,
+          address
+        );
+      }
+    }
+    return new NoActiveOrderError();
+  }
+}
+
+@Resolver()
+export class PostalCodeAdminResolver {
+  static schema = gql`
+    extend type Mutation {
+      """
+      Remove all cached address lookups. Returns the number of removed entries
+      """
+      clearAddressLookupCache: Int!
+      """
+      Start a job that imports the configured BAG dataset into the local address table
+      """
+      importDutchAddresses: Job!
+      updateDutchPostalCodeConfig(
+        input: DutchPostalCodeConfigInput!
+      ): DutchPostalCodeConfig!
+    }
+    extend type Query {
+      """
+      Address lookup configuration of the current channel
+      """
+      dutchPostalCodeConfig: DutchPostalCodeConfig
+      """
+      Invalid customer addresses of the current channel, found by the last address validation
+      """
+      invalidAddresses(skip: Int, take: Int): InvalidAddressList!
+    }
+    extend type Mutation {
+      """
+      Start a job that validates all Dutch customer addresses of the current channel
+      """
+      startAddressValidation: Job!
+      """
+      Update the customer address with the suggested correction of the given invalid address
+      """
+      applyAddressCorrection(id: ID!): Address!
+    }
+    enum AddressValidationStatus {
+      INCOMPLETE
+      NOT_FOUND
+      CORRECTION_SUGGESTED
+    }
+    type InvalidAddressFields {
+      fullName: String
+      streetLine1: String!
+      streetLine2: String
+      postalCode: String
+      city: String
+    }
+    type AddressSuggestion {
+      streetLine1: String!
+      postalCode: String!
+      city: String!
+    }
+    type InvalidAddress implements Node {
+      id: ID!
+      createdAt: DateTime!
+      addressId: ID!
+      customerId: ID!
+      status: AddressValidationStatus!
+      """
+      The address at the time of validation
+      """
+      address: InvalidAddressFields!
+      suggestion: AddressSuggestion
+    }
+    type InvalidAddressList implements PaginatedList {
+      items: [InvalidAddress!]!
+      totalItems: Int!
+    }
+    enum DutchPostalCodeProvider {
+      POSTCODE_TECH
+      LOCAL_DATASET
+    }
+    type DutchPostalCodeConfig {
+      id: ID!
+      enabled: Boolean!
+      provider: DutchPostalCodeProvider!
+      apiKey: String
+    }
+    input DutchPostalCodeConfigInput {
+      enabled: Boolean
+      provider: DutchPostalCodeProvider
+      """
+      API key for postcode.tech. Used as fallback by LOCAL_DATASET
+      """
+      apiKey: String
+    }
+  `;
+
+  constructor(
+    private readonly postalCodeService: PostalCodeService,
+    private readonly importService: DutchAddressImportService,
+    private readonly validationService: AddressValidationService
+  ) {}
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async clearAddressLookupCache(): Promise<number> {
+    return this.postalCodeService.clearCache();
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async importDutchAddresses(): Promise<Job> {
+    return this.importService.startImport();
+  }
+
+  @Query()
+  @Allow(dutchPostalCodePermission.Permission)
+  async dutchPostalCodeConfig(
+    @Ctx() ctx: RequestContext
+  ): Promise<PostalCodeConfigEntity | undefined> {
+    return this.postalCodeService.getConfig(ctx);
+  }
+
+  @Mutation()
+  @Allow(dutchPostalCodePermission.Permission)
+  async updateDutchPostalCodeConfig(
+    @Ctx() ctx: RequestContext,
+    @Args('input') input: PostalCodeConfigInput
+  ): Promise<PostalCodeConfigEntity> {
+    return this.postalCodeService.upsertConfig(ctx, input);
+  }
+
+  @Query()
+  @Allow(Permission.ReadCustomer)
+  async invalidAddresses(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { skip?: number; take?: number }
+  ): Promise<PaginatedList<AddressValidationResultEntity>> {
+    return this.validationService.getInvalidAddresses(
+      ctx,
+      args.skip,
+      args.take
     );
-    const jsonResult = await result.json();
-    if (!jsonResult.street) {
-      return undefined;
-    }
-    return {
-      postalCode: jsonResult.postcode,
-      houseNumber: jsonResult.number,
-      street: jsonResult.street,
-      city: jsonResult.city,
-      municipality: jsonResult.municipality,
-      province: jsonResult.province,
-      lat: jsonResult.geo?.lat,
-      lon: jsonResult.geo?.lon,
-    };
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCustomer)
+  async startAddressValidation(@Ctx() ctx: RequestContext): Promise<Job> {
+    return this.validationService.startValidation(ctx);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCustomer)
+  async applyAddressCorrection(
+    @Ctx() ctx: RequestContext,
+    @Args('id') id: ID
+  ): Promise<Address> {
+    return this.validationService.applyCorrection(ctx, id);
   }
 }
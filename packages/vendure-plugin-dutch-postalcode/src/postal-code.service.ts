@@ -0,0 +1,408 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { CreateAddressInput } from '@vendure/common/lib/generated-shop-types';
+import {
+  Injector,
+  Logger,
+  RequestContext,
+  TransactionalConnection,
+  UserInputError,
+} from '@vendure/core';
+import { AddressLookupCacheEntity } from './address-lookup-cache.entity';
+import { AddressLookupStrategy } from './address-lookup-strategy';
+import { loggerCtx, PLUGIN_INIT_OPTIONS } from './constants';
+import { PostcodeTechLookupStrategy } from './postcode-tech-lookup-strategy';
+import { LocalDatasetLookupStrategy } from './local-dataset-lookup-strategy';
+import {
+  AddressLookupErrorResult,
+  DutchAddressLookupInput,
+  DutchAddressLookupResult,
+  DutchHouseNumberAdditionsResponse,
+  DutchPostalCodePluginOptions,
+  PostalCodeConfigInput,
+  PostalCodeProvider,
+} from './types';
+import { PostalCodeConfigEntity } from './postal-code-config.entity';
+import {
+  AddressNotFoundError,
+  HouseNumberAdditionsNotSupportedError,
+  InvalidPostalCodeFormatError,
+  LookupUnavailableError,
+  RateLimitedError,
+} from './postal-code.errors';
+import { RateLimiter } from './rate-limiter';
+
+const defaultCacheTtl = 30 * 24 * 60 * 60;
+const defaultNegativeCacheTtl = 60 * 60;
+
+@Injectable()
+export class PostalCodeService {
+  private readonly strategies: AddressLookupStrategy[];
+  private readonly injector: Injector;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(
+    @Inject(PLUGIN_INIT_OPTIONS)
+    private readonly options: DutchPostalCodePluginOptions,
+    private readonly connection: TransactionalConnection,
+    moduleRef: ModuleRef
+  ) {
+    this.injector = new Injector(moduleRef);
+    this.rateLimiter = new RateLimiter(
+      (options.rateLimit?.windowSeconds ?? 60) * 1000
+    );
+    if (options.lookupStrategies?.length) {
+      this.strategies = options.lookupStrategies;
+    } else if (options.localDataset) {
+      this.strategies = [createStrategy('LOCAL_DATASET', options.apiKey)];
+    } else if (options.apiKey) {
+      this.strategies = [createStrategy('POSTCODE_TECH', options.apiKey)];
+    } else {
+      // Lookups are configured per channel via the admin API
+      this.strategies = [];
+    }
+  }
+
+  async lookup(
+    ctx: RequestContext,
+    input: DutchAddressLookupInput
+  ): Promise<DutchAddressLookupResult | undefined> {
+    // Normalize input, so '8932 br' and '8932BR' share the same cache entry
+    const cacheKey = normalizeInput(input);
+    const strategy = await this.getStrategy(ctx, cacheKey.countryCode);
+    const cacheTtl = this.options.cacheTtl ?? defaultCacheTtl;
+    const repository = this.connection.getRepository(AddressLookupCacheEntity);
+    const channelId = String(ctx.channelId);
+    const cached = cacheTtl
+      ? await repository.findOne({ where: { ...cacheKey, channelId } })
+      : undefined;
+    if (cached && cached.expiresAt > new Date()) {
+      return cached.result ?? undefined;
+    }
+    const result = await strategy.lookup({
+      ctx,
+      injector: this.injector,
+      ...cacheKey,
+    });
+    if (cacheTtl) {
+      const ttl = result
+        ? cacheTtl
+        : this.options.negativeCacheTtl ?? defaultNegativeCacheTtl;
+      await repository.save(
+        new AddressLookupCacheEntity({
+          ...cached,
+          ...cacheKey,
+          channelId,
+          result: result ?? null,
+          expiresAt: new Date(Date.now() + ttl * 1000),
+        })
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Count a lookup by the session and IP address of the request.
+   * Returns a RateLimitedError when the configured limit has been exceeded
+   */
+  checkRateLimit(ctx: RequestContext): RateLimitedError | undefined {
+    const { perSession, perIp } = this.options.rateLimit ?? {};
+    const retryAfter = [
+      perSession && ctx.session?.token
+        ? this.rateLimiter.hit(`session:${ctx.session.token}`, perSession)
+        : undefined,
+      perIp && ctx.req?.ip
+        ? this.rateLimiter.hit(`ip:${ctx.req.ip}`, perIp)
+        : undefined,
+    ].filter((seconds): seconds is number => seconds !== undefined);
+    if (retryAfter.length) {
+      return new RateLimitedError(Math.max(...retryAfter));
+    }
+    return undefined;
+  }
+
+  /**
+   * Like lookup(), but returns an ErrorResult instead of undefined or throwing
+   */
+  async findAddress(
+    ctx: RequestContext,
+    input: DutchAddressLookupInput
+  ): Promise<DutchAddressLookupResult | AddressLookupErrorResult> {
+    if (!hasValidFormat(normalizeInput(input))) {
+      return new InvalidPostalCodeFormatError();
+    }
+    try {
+      return (await this.lookup(ctx, input)) ?? new AddressNotFoundError();
+    } catch (e: any) {
+      Logger.warn(
+        `Lookup of ${input.postalCode} ${input.houseNumber} failed: ${e?.message}`,
+        loggerCtx
+      );
+      return new LookupUnavailableError();
+    }
+  }
+
+  /**
+   * Find the valid house number additions of an address, so a customer can select the right apartment
+   */
+  async findHouseNumberAdditions(
+    ctx: RequestContext,
+    input: DutchAddressLookupInput
+  ): Promise<DutchHouseNumberAdditionsResponse> {
+    const normalizedInput = normalizeInput(input);
+    if (!hasValidFormat(normalizedInput)) {
+      return new InvalidPostalCodeFormatError();
+    }
+    let additions: string[];
+    try {
+      const strategy = await this.getStrategy(ctx, normalizedInput.countryCode);
+      if (!strategy.lookupHouseNumberAdditions) {
+        return new HouseNumberAdditionsNotSupportedError();
+      }
+      additions = await strategy.lookupHouseNumberAdditions({
+        ctx,
+        injector: this.injector,
+        ...normalizedInput,
+      });
+    } catch (e: any) {
+      Logger.warn(
+        `Lookup of house number additions of ${input.postalCode} ${input.houseNumber} failed: ${e?.message}`,
+        loggerCtx
+      );
+      return new LookupUnavailableError();
+    }
+    if (!additions.length) {
+      return new AddressNotFoundError();
+    }
+    return {
+      postalCode: normalizedInput.postalCode,
+      houseNumber: normalizedInput.houseNumber,
+      additions,
+    };
+  }
+
+  async getConfig(
+    ctx: RequestContext
+  ): Promise<PostalCodeConfigEntity | undefined> {
+    return this.connection
+      .getRepository(ctx, PostalCodeConfigEntity)
+      .findOne({ channelId: String(ctx.channelId) });
+  }
+
+  async upsertConfig(
+    ctx: RequestContext,
+    input: PostalCodeConfigInput
+  ): Promise<PostalCodeConfigEntity> {
+    const existing = await this.getConfig(ctx);
+    // Cached results of the channel might have been looked up with a different provider or API key
+    await this.connection
+      .getRepository(ctx, AddressLookupCacheEntity)
+      .delete({ channelId: String(ctx.channelId) });
+    return this.connection.getRepository(ctx, PostalCodeConfigEntity).save(
+      new PostalCodeConfigEntity({
+        ...existing,
+        ...input,
+        channelId: String(ctx.channelId),
+      })
+    );
+  }
+
+  /**
+   * The config of the channel determines the lookup for NL. Other countries, and channels without config,
+   * use the strategies of the plugin options
+   */
+  private async getStrategy(
+    ctx: RequestContext,
+    countryCode: string
+  ): Promise<AddressLookupStrategy> {
+    const config = await this.getConfig(ctx);
+    if (config && !config.enabled) {
+      throw new UserInputError(
+        `Address lookup is disabled for channel ${ctx.channel.token}`
+      );
+    }
+    if (config && countryCode === 'NL') {
+      if (config.provider === 'POSTCODE_TECH' && !config.apiKey) {
+        throw new UserInputError(
+          `No postcode.tech API key configured for channel ${ctx.channel.token}`
+        );
+      }
+      return createStrategy(config.provider, config.apiKey);
+    }
+    const strategy = this.strategies.find((s) =>
+      s.countryCodes.includes(countryCode)
+    );
+    if (!strategy) {
+      throw new UserInputError(
+        `No address lookup configured for country code ${countryCode}`
+      );
+    }
+    return strategy;
+  }
+
+  /**
+   * Validate a Dutch address and return it with the official spelling of street and city.
+   * Throws a UserInputError when the postal code and house number don't exist.
+   * Addresses outside NL, and addresses that can't be checked because the lookup is unavailable, are returned as is
+   */
+  async normalizeAddress(
+    ctx: RequestContext,
+    address: CreateAddressInput
+  ): Promise<CreateAddressInput> {
+    if (address.countryCode.toUpperCase() !== 'NL') {
+      return address;
+    }
+    const houseNumber = getHouseNumber(address);
+    if (!address.postalCode || !houseNumber) {
+      throw new UserInputError(
+        `A Dutch address needs a postal code and a house number`
+      );
+    }
+    let corrected: CreateAddressInput | undefined;
+    try {
+      corrected = await this.correctAddress(ctx, address);
+    } catch (e: any) {
+      Logger.warn(
+        `Unable to validate address ${address.postalCode} ${houseNumber.number}, saving it without validation: ${e?.message}`,
+        loggerCtx
+      );
+      return address;
+    }
+    if (!corrected) {
+      throw new UserInputError(
+        `No address found for postal code ${address.postalCode} and house number ${houseNumber.number}`
+      );
+    }
+    return corrected;
+  }
+
+  /**
+   * Returns the address with the official spelling of street, city and postal code.
+   * Returns undefined when the address has no postal code or house number, or when no address was found
+   */
+  async correctAddress<T extends AddressFields>(
+    ctx: RequestContext,
+    address: T
+  ): Promise<
+    (T & { streetLine1: string; city: string; postalCode: string }) | undefined
+  > {
+    const houseNumber = getHouseNumber(address);
+    const result = await this.lookupAddress(ctx, address);
+    if (!houseNumber || !result) {
+      return undefined;
+    }
+    return {
+      ...address,
+      streetLine1: houseNumber.inStreetLine1
+        ? `${result.street} ${houseNumber.number}${houseNumber.addition}`
+        : result.street,
+      city: result.city,
+      postalCode: result.postalCode,
+    };
+  }
+
+  /**
+   * Look up an order or customer address by its postal code and house number.
+   * Returns undefined when the address has no postal code or house number, or when no address was found
+   */
+  async lookupAddress(
+    ctx: RequestContext,
+    address: AddressFields
+  ): Promise<DutchAddressLookupResult | undefined> {
+    const houseNumber = getHouseNumber(address);
+    if (!address.postalCode || !houseNumber) {
+      return undefined;
+    }
+    return this.lookup(ctx, {
+      postalCode: address.postalCode,
+      houseNumber: houseNumber.number,
+      countryCode: address.countryCode ?? undefined,
+    });
+  }
+
+  /**
+   * Remove all cached lookups. Returns the number of removed entries
+   */
+  async clearCache(): Promise<number> {
+    const repository = this.connection.getRepository(AddressLookupCacheEntity);
+    const count = await repository.count();
+    await repository.clear();
+    return count;
+  }
+}
+
+function normalizeInput(input: DutchAddressLookupInput): {
+  countryCode: string;
+  postalCode: string;
+  houseNumber: string;
+} {
+  return {
+    countryCode: (input.countryCode ?? 'NL').toUpperCase(),
+    postalCode: input.postalCode.replace(/\s/g, '').toUpperCase(),
+    houseNumber: input.houseNumber.trim(),
+  };
+}
+
+/**
+ * Only the format of Dutch postal codes is validated. Dutch postal codes don't start with a 0
+ */
+function hasValidFormat({
+  countryCode,
+  postalCode,
+}: {
+  countryCode: string;
+  postalCode: string;
+}): boolean {
+  return countryCode !== 'NL' || /^[1-9][0-9]{3}[A-Z]{2}$/.test(postalCode);
+}
+
+/**
+ * The local dataset uses postcode.tech as fallback when an API key is given
+ */
+function createStrategy(
+  provider: PostalCodeProvider,
+  apiKey?: string | null
+): AddressLookupStrategy {
+  if (provider === 'LOCAL_DATASET') {
+    return new LocalDatasetLookupStrategy(
+      apiKey ? new PostcodeTechLookupStrategy(apiKey) : undefined
+    );
+  }
+  return new PostcodeTechLookupStrategy(apiKey!);
+}
+
+/**
+ * The fields used for lookups, shared by address inputs and order addresses
+ */
+export type AddressFields = Pick<
+  Partial<CreateAddressInput>,
+  'streetLine1' | 'streetLine2' | 'postalCode' | 'countryCode'
+>;
+
+/**
+ * The house number is either the full streetLine2, like '48' or '48 A',
+ * or the end of streetLine1, like 'Tesselschadestraat 48A', 'Kerkstraat 12-1' or 'Kerkstraat 12 1'
+ */
+export function getHouseNumber(
+  address: AddressFields
+): { number: string; addition: string; inStreetLine1: boolean } | undefined {
+  const inStreetLine2 = address.streetLine2?.trim().match(/^(\d+)(.*)$/);
+  if (inStreetLine2) {
+    return {
+      number: inStreetLine2[1],
+      addition: inStreetLine2[2],
+      inStreetLine1: false,
+    };
+  }
+  const inStreetLine1 = address.streetLine1
+    ?.trim()
+    .match(/\s(\d+)([\s-]?\w*)$/);
+  if (inStreetLine1) {
+    return {
+      number: inStreetLine1[1],
+      addition: inStreetLine1[2],
+      inStreetLine1: true,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,47 @@
+import fetch from 'node-fetch';
+import {
+  AddressLookupInput,
+  AddressLookupStrategy,
+} from './address-lookup-strategy';
+import { DutchAddressLookupResult } from './types';
+
+/**
+ * Looks up Dutch addresses via https://postcode.tech
+ */
+export class PostcodeTechLookupStrategy implements AddressLookupStrategy {
+  readonly countryCodes = ['NL'];
+
+  constructor(private readonly apiKey: string) {}
+
+  async lookup({
+    postalCode,
+    houseNumber,
+  }: AddressLookupInput): Promise<DutchAddressLookupResult | undefined> {
+    const result = await fetch(
+      `https://postcode.tech/api/v1/postcode/full?postcode=${postalCode}&number=${houseNumber}`,
+      { headers: { Authorization: `Bearer ${this.apiKey}` } }
+    );
+    if (result.status === 404) {
+      return undefined;
+    }
+    if (!result.ok) {
+      throw Error(
+        `postcode.tech responded with ${result.status}: ${await result.text()}`
+      );
+    }
+    const jsonResult = await result.json();
+    if (!jsonResult.street) {
+      return undefined;
+    }
+    return {
+      postalCode: jsonResult.postcode,
+      houseNumber: jsonResult.number,
+      street: jsonResult.street,
+      city: jsonResult.city,
+      municipality: jsonResult.municipality,
+      province: jsonResult.province,
+      lat: jsonResult.geo?.lat,
+      lon: jsonResult.geo?.lon,
+    };
+  }
+}
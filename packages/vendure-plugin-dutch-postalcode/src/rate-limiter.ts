@@ -0,0 +1,42 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * In memory fixed window rate limiter. Limits are per server instance
+ */
+export class RateLimiter {
+  private readonly windows = new Map<string, Window>();
+
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Count a hit for the given key. Returns the number of seconds until the window resets
+   * if the limit has been exceeded, or undefined if the hit is allowed
+   */
+  hit(key: string, limit: number): number | undefined {
+    const now = Date.now();
+    if (this.windows.size > 10000) {
+      this.removeExpired(now);
+    }
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    if (window.count > limit) {
+      return Math.ceil((window.resetAt - now) / 1000);
+    }
+    return undefined;
+  }
+
+  private removeExpired(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { AddressLookupStrategy } from './address-lookup-strategy';
+import {
+  AddressNotFoundError,
+  HouseNumberAdditionsNotSupportedError,
+  InvalidPostalCodeFormatError,
+  LookupUnavailableError,
+  RateLimitedError,
+} from './postal-code.errors';
+
+export interface DutchPostalCodePluginOptions {
+  /**
+   * API key for postcode.tech, used by the default lookup strategy
+   */
+  apiKey?: string;
+  /**
+   * Strategies for looking up addresses. The first strategy that supports the requested country code is used.
+   * Defaults to the local dataset when `localDataset` is set, with postcode.tech as fallback when an apiKey is given.
+   * Otherwise defaults to postcode.tech for NL
+   */
+  lookupStrategies?: AddressLookupStrategy[];
+  /**
+   * Serve lookups from a local table with addresses from the BAG dataset.
+   * The CSV file is imported with the admin API mutation 'importDutchAddresses'
+   */
+  localDataset?: {
+    /**
+     * Path to a BAG address export, like the bagadres.csv of NLExtract
+     */
+    csvPath: string;
+  };
+  /**
+   * Number of seconds a found address is cached in the database. Defaults to 30 days. Set to 0 to disable caching
+   */
+  cacheTtl?: number;
+  /**
+   * Number of seconds a lookup without result is cached. Defaults to 1 hour
+   */
+  negativeCacheTtl?: number;
+  /**
+   * Maximum number of lookups per session and per IP address. Not limited by default
+   */
+  rateLimit?: {
+    perSession?: number;
+    perIp?: number;
+    /**
+     * Defaults to 60 seconds
+     */
+    windowSeconds?: number;
+  };
+  /**
+   * Validate Dutch addresses set with 'setOrderShippingAddress'. Street and city are replaced by their official spelling,
+   * and unknown combinations of postal code and house number are rejected. Disabled by default
+   */
+  validateShippingAddress?: boolean;
+}
+
+/**
+ * POSTCODE_TECH looks up addresses via postcode.tech, LOCAL_DATASET in the local table with imported BAG addresses
+ */
+export type PostalCodeProvider = 'POSTCODE_TECH' | 'LOCAL_DATASET';
+
+export interface PostalCodeConfigInput {
+  enabled?: boolean;
+  provider?: PostalCodeProvider;
+  /**
+   * API key for postcode.tech. Used as fallback by LOCAL_DATASET
+   */
+  apiKey?: string | null;
+}
+
+export interface DutchAddressLookupInput {
+  postalCode: string;
+  houseNumber: string;
+  /**
+   * Defaults to NL
+   */
+  countryCode?: string;
+}
+
+export interface DutchAddressLookupResult {
+  postalCode: string;
+  houseNumber: string;
+  street: string;
+  city: string;
+  municipality?: string;
+  province?: string;
+  lat?: number;
+  lon?: number;
+}
+
+export interface DutchHouseNumberAdditions {
+  postalCode: string;
+  houseNumber: string;
+  /**
+   * The valid additions, like 'A' and 'B' for 12-A and 12-B. An empty string means the house number is valid without addition
+   */
+  additions: string[];
+}
+
+export type AddressLookupErrorResult =
+  | RateLimitedError
+  | AddressNotFoundError
+  | InvalidPostalCodeFormatError
+  | LookupUnavailableError;
+
+export type DutchAddressLookupResponse =
+  | DutchAddressLookupResult
+  | AddressLookupErrorResult;
+
+export type DutchHouseNumberAdditionsResponse =
+  | DutchHouseNumberAdditions
+  | AddressLookupErrorResult
+  | HouseNumberAdditionsNotSupportedError;
@@ -0,0 +1,29 @@
+import { NgModule } from '@angular/core';
+import { addNavMenuItem, SharedModule } from '@vendure/admin-ui/core';
+
+@NgModule({
+  imports: [SharedModule],
+  providers: [
+    addNavMenuItem(
+      {
+        id: 'dutch-postal-code',
+        label: 'Dutch postal codes',
+        routerLink: ['/extensions/dutch-postal-code'],
+        icon: 'map-marker',
+        requiresPermission: 'SetDutchPostalCodeConfig',
+      },
+      'settings'
+    ),
+    addNavMenuItem(
+      {
+        id: 'invalid-addresses',
+        label: 'Invalid addresses',
+        routerLink: ['/extensions/dutch-postal-code/invalid-addresses'],
+        icon: 'map-marker',
+        requiresPermission: 'ReadCustomer',
+      },
+      'customers'
+    ),
+  ],
+})
+export class DutchPostalCodeNavModule {}
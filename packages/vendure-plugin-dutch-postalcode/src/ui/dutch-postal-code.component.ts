@@ -0,0 +1,103 @@
+import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup } from '@angular/forms';
+import { DataService, NotificationService } from '@vendure/admin-ui/core';
+import {
+  GET_DUTCH_POSTAL_CODE_CONFIG,
+  UPDATE_DUTCH_POSTAL_CODE_CONFIG,
+} from './queries';
+
+@Component({
+  selector: 'dutch-postal-code-component',
+  template: `
+    <div class="clr-row">
+      <div class="clr-col">
+        <form class="form" [formGroup]="form">
+          <section class="form-block">
+            <vdr-form-field label="Enabled" for="enabled">
+              <clr-toggle-wrapper>
+                <input
+                  type="checkbox"
+                  clrToggle
+                  id="enabled"
+                  formControlName="enabled"
+                />
+              </clr-toggle-wrapper>
+            </vdr-form-field>
+            <vdr-form-field label="Provider" for="provider">
+              <select id="provider" formControlName="provider">
+                <option value="POSTCODE_TECH">postcode.tech</option>
+                <option value="LOCAL_DATASET">Local BAG dataset</option>
+              </select>
+            </vdr-form-field>
+            <vdr-form-field label="postcode.tech API key" for="apiKey">
+              <input id="apiKey" type="text" formControlName="apiKey" />
+            </vdr-form-field>
+            <button
+              class="btn btn-primary"
+              (click)="save()"
+              [disabled]="form.invalid || form.pristine"
+            >
+              Save
+            </button>
+          </section>
+        </form>
+      </div>
+    </div>
+  `,
+})
+export class DutchPostalCodeComponent implements OnInit {
+  form: FormGroup;
+
+  constructor(
+    private formBuilder: FormBuilder,
+    protected dataService: DataService,
+    private changeDetector: ChangeDetectorRef,
+    private notificationService: NotificationService
+  ) {
+    this.form = this.formBuilder.group({
+      enabled: [true],
+      provider: ['POSTCODE_TECH'],
+      apiKey: [''],
+    });
+  }
+
+  async ngOnInit(): Promise<void> {
+    await this.dataService
+      .query(GET_DUTCH_POSTAL_CODE_CONFIG)
+      .mapStream((d: any) => d.dutchPostalCodeConfig)
+      .subscribe((config) => {
+        if (!config) {
+          return;
+        }
+        this.form.controls['enabled'].setValue(config.enabled);
+        this.form.controls['provider'].setValue(config.provider);
+        this.form.controls['apiKey'].setValue(config.apiKey);
+      });
+  }
+
+  async save(): Promise<void> {
+    try {
+      if (this.form.dirty) {
+        const formValue = this.form.value;
+        await this.dataService
+          .mutate(UPDATE_DUTCH_POSTAL_CODE_CONFIG, {
+            input: {
+              enabled: formValue.enabled,
+              provider: formValue.provider,
+              apiKey: formValue.apiKey || null,
+            },
+          })
+          .toPromise();
+      }
+      this.form.markAsPristine();
+      this.changeDetector.markForCheck();
+      this.notificationService.success('common.notify-update-success', {
+        entity: 'Dutch postal code config',
+      });
+    } catch (e) {
+      this.notificationService.error('common.notify-update-error', {
+        entity: 'Dutch postal code config',
+      });
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { NgModule } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { SharedModule } from '@vendure/admin-ui/core';
+import { DutchPostalCodeComponent } from './dutch-postal-code.component';
+import { InvalidAddressesComponent } from './invalid-addresses.component';
+
+@NgModule({
+  imports: [
+    SharedModule,
+    RouterModule.forChild([
+      {
+        path: '',
+        pathMatch: 'full',
+        component: DutchPostalCodeComponent,
+        data: { breadcrumb: 'Dutch postal codes' },
+      },
+      {
+        path: 'invalid-addresses',
+        component: InvalidAddressesComponent,
+        data: { breadcrumb: 'Invalid addresses' },
+      },
+    ]),
+  ],
+  providers: [],
+  declarations: [DutchPostalCodeComponent, InvalidAddressesComponent],
+})
+export class DutchPostalCodeModule {}
@@ -0,0 +1,153 @@
+import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
+import {
+  DataService,
+  JobQueueService,
+  NotificationService,
+} from '@vendure/admin-ui/core';
+import {
+  APPLY_ADDRESS_CORRECTION,
+  GET_INVALID_ADDRESSES,
+  START_ADDRESS_VALIDATION,
+} from './queries';
+
+@Component({
+  selector: 'invalid-addresses-component',
+  template: `
+    <vdr-action-bar>
+      <vdr-ab-left>
+        Dutch customer addresses that don't match the address lookup
+      </vdr-ab-left>
+      <vdr-ab-right>
+        <button
+          class="btn btn-primary"
+          (click)="startValidation()"
+          [disabled]="validating"
+        >
+          Validate addresses
+        </button>
+      </vdr-ab-right>
+    </vdr-action-bar>
+    <vdr-data-table
+      [items]="items"
+      [itemsPerPage]="itemsPerPage"
+      [totalItems]="totalItems"
+      [currentPage]="currentPage"
+      (pageChange)="setPage($event)"
+      (itemsPerPageChange)="setItemsPerPage($event)"
+    >
+      <vdr-dt-column>Customer</vdr-dt-column>
+      <vdr-dt-column>Address</vdr-dt-column>
+      <vdr-dt-column>Status</vdr-dt-column>
+      <vdr-dt-column>Suggestion</vdr-dt-column>
+      <vdr-dt-column></vdr-dt-column>
+      <ng-template let-item="item">
+        <td class="left align-middle">
+          <a [routerLink]="['/customer', 'customers', item.customerId]">
+            {{ item.address.fullName || item.customerId }}
+          </a>
+        </td>
+        <td class="left align-middle">
+          {{ item.address.streetLine1 }} {{ item.address.streetLine2 }}<br />
+          {{ item.address.postalCode }} {{ item.address.city }}
+        </td>
+        <td class="left align-middle">{{ item.status }}</td>
+        <td class="left align-middle">
+          <ng-container *ngIf="item.suggestion">
+            {{ item.suggestion.streetLine1 }}<br />
+            {{ item.suggestion.postalCode }} {{ item.suggestion.city }}
+          </ng-container>
+        </td>
+        <td class="right align-middle">
+          <button
+            *ngIf="item.suggestion"
+            class="btn btn-sm btn-secondary"
+            (click)="applyCorrection(item.id)"
+          >
+            Apply
+          </button>
+        </td>
+      </ng-template>
+    </vdr-data-table>
+  `,
+})
+export class InvalidAddressesComponent implements OnInit {
+  items: any[] = [];
+  totalItems = 0;
+  itemsPerPage = 25;
+  currentPage = 1;
+  validating = false;
+
+  constructor(
+    private dataService: DataService,
+    private jobQueueService: JobQueueService,
+    private changeDetector: ChangeDetectorRef,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  setPage(page: number): void {
+    this.currentPage = page;
+    this.load();
+  }
+
+  setItemsPerPage(itemsPerPage: number): void {
+    this.itemsPerPage = itemsPerPage;
+    this.currentPage = 1;
+    this.load();
+  }
+
+  async startValidation(): Promise<void> {
+    this.validating = true;
+    try {
+      const { startAddressValidation } = await this.dataService
+        .mutate<any>(START_ADDRESS_VALIDATION)
+        .toPromise();
+      this.notificationService.success('Started address validation');
+      this.jobQueueService.addJob(startAddressValidation.id, () => {
+        this.validating = false;
+        this.notificationService.success('Address validation completed');
+        this.load();
+      });
+    } catch (e) {
+      this.validating = false;
+      this.notificationService.error(e.message);
+    }
+    this.changeDetector.markForCheck();
+  }
+
+  async applyCorrection(id: string): Promise<void> {
+    try {
+      await this.dataService
+        .mutate(APPLY_ADDRESS_CORRECTION, { id })
+        .toPromise();
+      this.notificationService.success('common.notify-update-success', {
+        entity: 'Address',
+      });
+      this.load();
+    } catch (e) {
+      this.notificationService.error('common.notify-update-error', {
+        entity: 'Address',
+      });
+    }
+  }
+
+  private load(): void {
+    this.dataService
+      .query(
+        GET_INVALID_ADDRESSES,
+        {
+          skip: (this.currentPage - 1) * this.itemsPerPage,
+          take: this.itemsPerPage,
+        },
+        'network-only'
+      )
+      .single$.subscribe((data: any) => {
+        this.items = data.invalidAddresses.items;
+        this.totalItems = data.invalidAddresses.totalItems;
+        this.changeDetector.markForCheck();
+      });
+  }
+}
@@ -0,0 +1,66 @@
+import gql from 'graphql-tag';
+
+export const UPDATE_DUTCH_POSTAL_CODE_CONFIG = gql`
+  mutation updateDutchPostalCodeConfig($input: DutchPostalCodeConfigInput!) {
+    updateDutchPostalCodeConfig(input: $input) {
+      id
+      enabled
+      provider
+      apiKey
+    }
+  }
+`;
+
+export const GET_DUTCH_POSTAL_CODE_CONFIG = gql`
+  query dutchPostalCodeConfig {
+    dutchPostalCodeConfig {
+      id
+      enabled
+      provider
+      apiKey
+    }
+  }
+`;
+
+export const GET_INVALID_ADDRESSES = gql`
+  query invalidAddresses($skip: Int, $take: Int) {
+    invalidAddresses(skip: $skip, take: $take) {
+      items {
+        id
+        createdAt
+        addressId
+        customerId
+        status
+        address {
+          fullName
+          streetLine1
+          streetLine2
+          postalCode
+          city
+        }
+        suggestion {
+          streetLine1
+          postalCode
+          city
+        }
+      }
+      totalItems
+    }
+  }
+`;
+
+export const START_ADDRESS_VALIDATION = gql`
+  mutation startAddressValidation {
+    startAddressValidation {
+      id
+    }
+  }
+`;
+
+export const APPLY_ADDRESS_CORRECTION = gql`
+  mutation applyAddressCorrection($id: ID!) {
+    applyAddressCorrection(id: $id) {
+      id
+    }
+  }
+`;
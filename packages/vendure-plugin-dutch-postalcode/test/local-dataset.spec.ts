@@ -0,0 +1,391 @@
+import {
+  createTestEnvironment,
+  registerInitializer,
+  SimpleGraphQLClient,
+  SqljsInitializer,
+  testConfig,
+} from '@vendure/testing';
+import { initialData } from '../../test/src/initial-data';
+import {
+  DefaultLogger,
+  InitialData,
+  LogLevel,
+  mergeConfig,
+} from '@vendure/core';
+import { TestServer } from '@vendure/testing/lib/test-server';
+import gql from 'graphql-tag';
+import path from 'path';
+import { DutchPostalCodePlugin } from '../src/dutch-postal-code.plugin';
+import { DutchAddressImportService } from '../src/dutch-address-import.service';
+
+const lookupQuery = gql`
+  query dutchAddressLookup($input: DutchPostalCodeInput!) {
+    dutchAddressLookup(input: $input) {
+      ... on DutchAddressLookupResult {
+        postalCode
+        houseNumber
+        street
+        city
+        municipality
+        lat
+        lon
+      }
+      ... on ErrorResult {
+        errorCode
+      }
+    }
+  }
+`;
+
+const additionsQuery = gql`
+  query dutchHouseNumberAdditions($input: DutchPostalCodeInput!) {
+    dutchHouseNumberAdditions(input: $input) {
+      ... on DutchHouseNumberAdditions {
+        postalCode
+        houseNumber
+        additions
+      }
+      ... on ErrorResult {
+        errorCode
+      }
+    }
+  }
+`;
+
+const importMutation = gql`
+  mutation importDutchAddresses {
+    importDutchAddresses {
+      id
+    }
+  }
+`;
+
+const jobsQuery = gql`
+  query jobs($queueName: String!) {
+    jobs(options: { filter: { queueName: { eq: $queueName } } }) {
+      items {
+        id
+        state
+        result
+      }
+    }
+  }
+`;
+
+const createAddressMutation = gql`
+  mutation createCustomerAddress(
+    $customerId: ID!
+    $input: CreateAddressInput!
+  ) {
+    createCustomerAddress(customerId: $customerId, input: $input) {
+      id
+    }
+  }
+`;
+
+const startValidationMutation = gql`
+  mutation startAddressValidation {
+    startAddressValidation {
+      id
+    }
+  }
+`;
+
+const invalidAddressesQuery = gql`
+  query invalidAddresses {
+    invalidAddresses {
+      items {
+        id
+        addressId
+        status
+        address {
+          streetLine1
+          postalCode
+          city
+        }
+        suggestion {
+          streetLine1
+          postalCode
+          city
+        }
+      }
+      totalItems
+    }
+  }
+`;
+
+const applyCorrectionMutation = gql`
+  mutation applyAddressCorrection($id: ID!) {
+    applyAddressCorrection(id: $id) {
+      id
+      streetLine1
+      postalCode
+      city
+    }
+  }
+`;
+
+const updateAddressMutation = gql`
+  mutation updateCustomerAddress($input: UpdateAddressInput!) {
+    updateCustomerAddress(input: $input) {
+      id
+    }
+  }
+`;
+
+/**
+ * Poll the jobs of the given queue until the job with the given id is completed
+ */
+async function waitForJob(
+  adminClient: SimpleGraphQLClient,
+  queueName: string,
+  jobId: string
+): Promise<any> {
+  let job: any;
+  for (let i = 0; i < 50 && job?.state !== 'COMPLETED'; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const { jobs } = await adminClient.query(jobsQuery, { queueName });
+    job = jobs.items.find((j: any) => j.id === jobId);
+  }
+  return job;
+}
+
+jest.setTimeout(60000);
+describe('Dutch PostalCode plugin with local dataset', () => {
+  let testServer: TestServer;
+  let shopClient: SimpleGraphQLClient;
+  let adminClient: SimpleGraphQLClient;
+
+  it('Server should start', async () => {
+    registerInitializer('sqljs', new SqljsInitializer('__data__'));
+    const config = mergeConfig(testConfig, {
+      apiOptions: {
+        port: 3102,
+      },
+      logger: new DefaultLogger({ level: LogLevel.Debug }),
+      plugins: [
+        DutchPostalCodePlugin.init({
+          localDataset: {
+            csvPath: path.join(__dirname, 'bag-addresses.csv'),
+          },
+        }),
+      ],
+    });
+    const env = createTestEnvironment(config);
+    testServer = env.server;
+    shopClient = env.shopClient;
+    adminClient = env.adminClient;
+    const serverStart = testServer.init({
+      initialData: initialData as InitialData,
+      productsCsvPath: '../test/src/products-import.csv',
+      customerCount: 1,
+    });
+    await expect(serverStart).resolves.toEqual(undefined);
+  });
+
+  it('Imports the configured dataset via a job', async () => {
+    await adminClient.asSuperAdmin();
+    const { importDutchAddresses } = await adminClient.query(importMutation);
+    const job = await waitForJob(
+      adminClient,
+      'dutch-address-import',
+      importDutchAddresses.id
+    );
+    expect(job.state).toBe('COMPLETED');
+    expect(job.result).toEqual({
+      created: 3,
+      updated: 0,
+      unchanged: 0,
+      skipped: 1,
+    });
+  });
+
+  it('Looks up an address from the local dataset', async () => {
+    await shopClient.asUserWithCredentials(
+      'hayden.zieme12@hotmail.com',
+      'test'
+    );
+    const { dutchAddressLookup } = await shopClient.query(lookupQuery, {
+      input: { postalCode: '8932 BR', houseNumber: '48' },
+    });
+    expect(dutchAddressLookup).toEqual({
+      postalCode: '8932BR',
+      houseNumber: '48',
+      street: 'Tesselschadestraat',
+      city: 'Leeuwarden',
+      municipality: 'Leeuwarden',
+      lat: 53.1955,
+      lon: 5.7969,
+    });
+  });
+
+  it('Returns AddressNotFoundError for an address that is not in the dataset', async () => {
+    const { dutchAddressLookup } = await shopClient.query(lookupQuery, {
+      input: { postalCode: '1234AB', houseNumber: '1' },
+    });
+    expect(dutchAddressLookup.errorCode).toBe('ADDRESS_NOT_FOUND_ERROR');
+  });
+
+  it('Returns the house number additions of an address', async () => {
+    const { dutchHouseNumberAdditions } = await shopClient.query(
+      additionsQuery,
+      { input: { postalCode: '8932 br', houseNumber: '48' } }
+    );
+    expect(dutchHouseNumberAdditions).toEqual({
+      postalCode: '8932BR',
+      houseNumber: '48',
+      additions: ['', 'A'],
+    });
+  });
+
+  it('Returns AddressNotFoundError for additions of an unknown address', async () => {
+    const { dutchHouseNumberAdditions } = await shopClient.query(
+      additionsQuery,
+      { input: { postalCode: '8932BR', houseNumber: '50' } }
+    );
+    expect(dutchHouseNumberAdditions.errorCode).toBe('ADDRESS_NOT_FOUND_ERROR');
+  });
+
+  it('Only writes new and changed addresses on a new import', async () => {
+    // Cache the address before the update
+    const { dutchAddressLookup: before } = await shopClient.query(lookupQuery, {
+      input: { postalCode: '8911DZ', houseNumber: '1' },
+    });
+    expect(before.city).toBe('Leeuwarden');
+    const result = await testServer.app
+      .get(DutchAddressImportService)
+      .importCsv(path.join(__dirname, 'bag-addresses-update.csv'));
+    expect(result).toEqual({
+      created: 1,
+      updated: 1,
+      unchanged: 2,
+      skipped: 0,
+    });
+    const { dutchAddressLookup } = await shopClient.query(lookupQuery, {
+      input: { postalCode: '8911DZ', houseNumber: '1' },
+    });
+    expect(dutchAddressLookup.city).toBe('Ljouwert');
+  });
+
+  it('Does not write anything when importing the same file again', async () => {
+    const result = await testServer.app
+      .get(DutchAddressImportService)
+      .importCsv(path.join(__dirname, 'bag-addresses-update.csv'));
+    expect(result).toEqual({
+      created: 0,
+      updated: 0,
+      unchanged: 4,
+      skipped: 0,
+    });
+  });
+
+  it('Validates the Dutch addresses of customers', async () => {
+    const addresses = [
+      // Valid
+      { streetLine1: 'Tesselschadestraat 48', postalCode: '8932BR' },
+      // Misspelled
+      {
+        streetLine1: 'tesselschadestr. 48A',
+        postalCode: '8932 br',
+        city: 'Ljouwert',
+      },
+      // Unknown
+      { streetLine1: 'Teststraat 1', postalCode: '1234AB' },
+      // Without house number
+      { streetLine1: 'Teststraat', postalCode: '8932BR' },
+    ];
+    for (const address of addresses) {
+      await adminClient.query(createAddressMutation, {
+        customerId: 'T_1',
+        input: { city: 'Leeuwarden', countryCode: 'NL', ...address },
+      });
+    }
+    const { startAddressValidation } = await adminClient.query(
+      startValidationMutation
+    );
+    const job = await waitForJob(
+      adminClient,
+      'dutch-address-validation',
+      startAddressValidation.id
+    );
+    expect(job.state).toBe('COMPLETED');
+    expect(job.result).toEqual({ validated: 4, invalid: 3, failed: 0 });
+  });
+
+  it('Lists the invalid addresses with suggestions', async () => {
+    const { invalidAddresses } = await adminClient.query(invalidAddressesQuery);
+    expect(invalidAddresses.totalItems).toBe(3);
+    expect(invalidAddresses.items.map((a: any) => a.status)).toEqual([
+      'CORRECTION_SUGGESTED',
+      'NOT_FOUND',
+      'INCOMPLETE',
+    ]);
+    expect(invalidAddresses.items[0].suggestion).toEqual({
+      streetLine1: 'Tesselschadestraat 48A',
+      postalCode: '8932BR',
+      city: 'Leeuwarden',
+    });
+  });
+
+  it('Applies a suggested correction', async () => {
+    const { invalidAddresses } = await adminClient.query(invalidAddressesQuery);
+    const { applyAddressCorrection } = await adminClient.query(
+      applyCorrectionMutation,
+      { id: invalidAddresses.items[0].id }
+    );
+    expect(applyAddressCorrection).toEqual({
+      id: invalidAddresses.items[0].addressId,
+      streetLine1: 'Tesselschadestraat 48A',
+      postalCode: '8932BR',
+      city: 'Leeuwarden',
+    });
+    const { invalidAddresses: remaining } = await adminClient.query(
+      invalidAddressesQuery
+    );
+    expect(remaining.totalItems).toBe(2);
+  });
+
+  it('Refuses a correction when the address was changed after validation', async () => {
+    const { createCustomerAddress } = await adminClient.query(
+      createAddressMutation,
+      {
+        customerId: 'T_1',
+        input: {
+          streetLine1: 'tesselschadestr. 48',
+          postalCode: '8932BR',
+          city: 'Leeuwarden',
+          countryCode: 'NL',
+        },
+      }
+    );
+    const { startAddressValidation } = await adminClient.query(
+      startValidationMutation
+    );
+    await waitForJob(
+      adminClient,
+      'dutch-address-validation',
+      startAddressValidation.id
+    );
+    const { invalidAddresses } = await adminClient.query(invalidAddressesQuery);
+    const invalid = invalidAddresses.items.find(
+      (a: any) => a.addressId === createCustomerAddress.id
+    );
+    expect(invalid.status).toBe('CORRECTION_SUGGESTED');
+    await adminClient.query(updateAddressMutation, {
+      input: { id: createCustomerAddress.id, streetLine1: 'Teststraat 1' },
+    });
+    await expect(
+      adminClient.query(applyCorrectionMutation, { id: invalid.id })
+    ).rejects.toThrow('was changed after it was validated');
+    const { invalidAddresses: remaining } = await adminClient.query(
+      invalidAddressesQuery
+    );
+    expect(
+      remaining.items.find((a: any) => a.id === invalid.id)
+    ).toBeUndefined();
+  });
+
+  afterAll(() => {
+    return testServer.destroy();
+  });
+});